@@ -6,7 +6,12 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { Play, Pause, RotateCcw, Settings, Trophy, Zap, Heart, Target } from 'lucide-react';
+import { Play, Pause, RotateCcw, Settings, Trophy, Zap, Heart, Target, Car, Paintbrush } from 'lucide-react';
+import Garage from '@/components/Garage';
+import LiveryEditor from '@/components/LiveryEditor';
+import { DEFAULT_DAMAGE_SETTINGS } from '@/lib/game/DamageModel';
+import { CarId, CarSelectionStorage, DEFAULT_CAR_ID, getCarDefinition } from '@/lib/game/CarRoster';
+import { Livery, LiveryStorage } from '@/lib/game/Livery';
 
 // Dynamically import the 3D game component to avoid SSR issues
 const Game3D = dynamic(() => import('@/components/Game3D'), { 
@@ -21,13 +26,15 @@ const Game3D = dynamic(() => import('@/components/Game3D'), {
   )
 });
 
-type GameState = 'menu' | 'playing' | 'paused' | 'gameOver' | 'settings';
+type GameState = 'menu' | 'playing' | 'paused' | 'gameOver' | 'settings' | 'garage' | 'paintShop';
 
 interface GameStats {
   score: number;
   distance: number;
   speed: number;
   health: number;
+  maxHealth: number;
+  lives: number;
   level: number;
   obstaclesAvoided: number;
   combo: number;
@@ -40,7 +47,9 @@ export default function HomePage() {
     score: 0,
     distance: 0,
     speed: 0,
-    health: 100,
+    health: DEFAULT_DAMAGE_SETTINGS.maxHealth,
+    maxHealth: DEFAULT_DAMAGE_SETTINGS.maxHealth,
+    lives: DEFAULT_DAMAGE_SETTINGS.lives,
     level: 1,
     obstaclesAvoided: 0,
     combo: 0,
@@ -51,6 +60,8 @@ export default function HomePage() {
     sound: true,
     controls: 'keyboard'
   });
+  const [carId, setCarId] = useState<CarId>(DEFAULT_CAR_ID);
+  const [livery, setLivery] = useState<Livery | null>(null);
 
   useEffect(() => {
     // Load high score from localStorage
@@ -58,6 +69,8 @@ export default function HomePage() {
     if (savedHighScore) {
       setGameStats(prev => ({ ...prev, highScore: parseInt(savedHighScore) }));
     }
+    setCarId(CarSelectionStorage.load());
+    setLivery(LiveryStorage.load());
   }, []);
 
   const startGame = () => {
@@ -67,7 +80,9 @@ export default function HomePage() {
       score: 0,
       distance: 0,
       speed: 0,
-      health: 100,
+      health: DEFAULT_DAMAGE_SETTINGS.maxHealth,
+      maxHealth: DEFAULT_DAMAGE_SETTINGS.maxHealth,
+      lives: DEFAULT_DAMAGE_SETTINGS.lives,
       level: 1,
       obstaclesAvoided: 0,
       combo: 0
@@ -96,6 +111,18 @@ export default function HomePage() {
     setGameState('settings');
   };
 
+  const selectCar = (id: CarId) => {
+    setCarId(id);
+    CarSelectionStorage.save(id);
+  };
+
+  // The game engine loads the saved livery when it starts (null = factory paint)
+  const saveLivery = (newLivery: Livery | null) => {
+    setLivery(newLivery);
+    LiveryStorage.save(newLivery);
+    setGameState('menu');
+  };
+
   const MainMenu = () => (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-800 flex items-center justify-center p-4">
       <div className="max-w-md w-full space-y-6">
@@ -129,6 +156,24 @@ export default function HomePage() {
             Start Game
           </Button>
           
+          <Button 
+            onClick={() => setGameState('garage')}
+            variant="outline"
+            className="w-full h-12 border-blue-500/50 text-blue-200 hover:bg-blue-500/20"
+          >
+            <Car className="w-5 h-5 mr-2" />
+            Garage: {getCarDefinition(carId).name}
+          </Button>
+          
+          <Button 
+            onClick={() => setGameState('paintShop')}
+            variant="outline"
+            className="w-full h-12 border-blue-500/50 text-blue-200 hover:bg-blue-500/20"
+          >
+            <Paintbrush className="w-5 h-5 mr-2" />
+            Paint Shop
+          </Button>
+          
           <Button 
             onClick={openSettings}
             variant="outline"
@@ -140,7 +185,7 @@ export default function HomePage() {
         </div>
 
         <div className="text-center text-sm text-blue-300 space-y-1">
-          <p>Controls: Arrow Keys or WASD</p>
+          <p>Controls: Arrow Keys or WASD, Shift for nitro</p>
           <p>Mobile: Touch to steer</p>
         </div>
       </div>
@@ -173,8 +218,10 @@ export default function HomePage() {
               <div className="flex items-center gap-2 text-white">
                 <Heart className="w-4 h-4 text-red-400" />
                 <span className="text-sm">Health:</span>
-                <Progress value={gameStats.health} className="w-20 h-2" />
-                <span className="text-sm font-bold text-red-400">{gameStats.health}%</span>
+                <Progress value={(gameStats.health / gameStats.maxHealth) * 100} className="w-20 h-2" />
+                <span className="text-sm font-bold text-red-400">
+                  {Math.round(gameStats.health)}/{gameStats.maxHealth} x{gameStats.lives}
+                </span>
               </div>
             </CardContent>
           </Card>
@@ -306,6 +353,7 @@ export default function HomePage() {
               <option value="low">Low</option>
               <option value="medium">Medium</option>
               <option value="high">High</option>
+              <option value="ultra">Ultra</option>
             </select>
           </div>
           
@@ -353,6 +401,14 @@ export default function HomePage() {
     return <SettingsScreen />;
   }
 
+  if (gameState === 'garage') {
+    return <Garage selectedCarId={carId} onSelectCar={selectCar} onBack={() => setGameState('menu')} />;
+  }
+
+  if (gameState === 'paintShop') {
+    return <LiveryEditor carId={carId} livery={livery} onSave={saveLivery} onBack={() => setGameState('menu')} />;
+  }
+
   return (
     <div className="relative w-full h-screen overflow-hidden">
       <Game3D 
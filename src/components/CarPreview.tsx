@@ -0,0 +1,94 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { ThreeUtils } from '@/lib/utils/three-utils';
+import { CarId, getCarDefinition } from '@/lib/game/CarRoster';
+import type { Livery } from '@/lib/game/Livery';
+
+interface CarPreviewProps {
+  carId: CarId;
+  livery: Livery | null;
+  className?: string;
+}
+
+interface PreviewStage {
+  renderer: THREE.WebGLRenderer;
+  turntable: THREE.Group;
+}
+
+export default function CarPreview({ carId, livery, className }: CarPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const stageRef = useRef<PreviewStage | null>(null);
+
+  // One small renderer for the component's lifetime; the car spins on a turntable
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const renderer = new THREE.WebGLRenderer({ canvas, antialias: true, alpha: true });
+    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+    renderer.outputColorSpace = THREE.SRGBColorSpace;
+
+    const scene = new THREE.Scene();
+    const camera = new THREE.PerspectiveCamera(35, 1, 0.1, 100);
+    camera.position.set(6, 3.5, 6);
+    camera.lookAt(0, 0.6, 0);
+
+    scene.add(new THREE.HemisphereLight(0xffffff, 0x444444, 1.2));
+    const keyLight = new THREE.DirectionalLight(0xffffff, 1.5);
+    keyLight.position.set(5, 8, 5);
+    scene.add(keyLight);
+
+    const turntable = new THREE.Group();
+    scene.add(turntable);
+    stageRef.current = { renderer, turntable };
+
+    const clock = new THREE.Clock();
+    let animationId = 0;
+    let width = 0;
+    let height = 0;
+
+    const animate = () => {
+      animationId = requestAnimationFrame(animate);
+
+      // Follow the canvas' CSS size
+      if (canvas.clientWidth !== width || canvas.clientHeight !== height) {
+        width = canvas.clientWidth;
+        height = canvas.clientHeight;
+        renderer.setSize(width, height, false);
+        camera.aspect = width / Math.max(height, 1);
+        camera.updateProjectionMatrix();
+      }
+
+      turntable.rotation.y += clock.getDelta() * 0.6;
+      renderer.render(scene, camera);
+    };
+    animate();
+
+    return () => {
+      cancelAnimationFrame(animationId);
+      renderer.dispose();
+      stageRef.current = null;
+    };
+  }, []);
+
+  // Rebuild the car whenever the model or paint changes
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+
+    const car = ThreeUtils.createCarGeometry(getCarDefinition(carId).body);
+    if (livery) {
+      ThreeUtils.applyLivery(car, livery);
+    }
+    stage.turntable.add(car);
+
+    return () => {
+      stage.turntable.remove(car);
+      ThreeUtils.dispose(car);
+    };
+  }, [carId, livery]);
+
+  return <canvas ref={canvasRef} className={className} />;
+}
\ No newline at end of file
@@ -2,6 +2,7 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import * as THREE from 'three';
+import { DamageModel } from '@/lib/game/DamageModel';
 
 interface Game3DProps {
   onScoreUpdate: (score: number) => void;
@@ -30,6 +31,8 @@ interface Obstacle {
   };
 }
 
+const MAX_SPEED = 0.5; // World units per frame
+
 const Game3D: React.FC<Game3DProps> = ({ 
   onScoreUpdate, 
   onGameOver, 
@@ -41,6 +44,7 @@ const Game3D: React.FC<Game3DProps> = ({
   const rendererRef = useRef<THREE.WebGLRenderer>();
   const cameraRef = useRef<THREE.PerspectiveCamera>();
   const carRef = useRef<THREE.Group>();
+  const roadRef = useRef<THREE.Group>(undefined);
   const animationIdRef = useRef<number>();
   
   const [carState, setCarState] = useState<CarState>({
@@ -53,9 +57,10 @@ const Game3D: React.FC<Game3DProps> = ({
 
   const obstaclesRef = useRef<Obstacle[]>([]);
   const keysRef = useRef<{ [key: string]: boolean }>({});
+  const damageModelRef = useRef(new DamageModel());
   const gameDataRef = useRef({
     score: 0,
-    health: 100,
+    health: damageModelRef.current.getMaxHealth(),
     distance: 0,
     speed: 0,
     lastObstacleZ: -50
@@ -139,8 +144,12 @@ const Game3D: React.FC<Game3DProps> = ({
 
   }, []);
 
-  // Create road
+  // Create road; the whole strip is recycled forward with the car (see updateRoad)
   const createRoad = (scene: THREE.Scene) => {
+    const roadGroup = new THREE.Group();
+    roadRef.current = roadGroup;
+    scene.add(roadGroup);
+
     const roadGeometry = new THREE.PlaneGeometry(20, 1000);
     const roadMaterial = new THREE.MeshLambertMaterial({ 
       color: 0x333333,
@@ -150,12 +159,12 @@ const Game3D: React.FC<Game3DProps> = ({
     const road = new THREE.Mesh(roadGeometry, roadMaterial);
     road.rotation.x = -Math.PI / 2;
     road.position.y = 0;
-    road.position.z = -500;
+    road.position.z = -490; // Reaches a little behind the car for the chase camera
     road.receiveShadow = true;
-    scene.add(road);
+    roadGroup.add(road);
 
     // Road markings
-    for (let i = 0; i < 100; i++) {
+    for (let i = -1; i < 100; i++) {
       const markingGeometry = new THREE.PlaneGeometry(0.5, 4);
       const markingMaterial = new THREE.MeshBasicMaterial({ 
         color: 0xffffff,
@@ -165,7 +174,7 @@ const Game3D: React.FC<Game3DProps> = ({
       const marking = new THREE.Mesh(markingGeometry, markingMaterial);
       marking.rotation.x = -Math.PI / 2;
       marking.position.set(0, 0.01, -i * 10 - 10);
-      scene.add(marking);
+      roadGroup.add(marking);
     }
 
     // Road borders with neon effect
@@ -176,17 +185,17 @@ const Game3D: React.FC<Game3DProps> = ({
       opacity: 0.7
     });
 
-    for (let i = 0; i < 100; i++) {
+    for (let i = -1; i < 100; i++) {
       // Left border
       const leftBorderGeometry = new THREE.BoxGeometry(0.2, 0.5, 2);
       const leftBorder = new THREE.Mesh(leftBorderGeometry, borderMaterial);
       leftBorder.position.set(-10, 0.25, -i * 10 - 10);
-      scene.add(leftBorder);
+      roadGroup.add(leftBorder);
 
       // Right border
       const rightBorder = new THREE.Mesh(leftBorderGeometry, borderMaterial);
       rightBorder.position.set(10, 0.25, -i * 10 - 10);
-      scene.add(rightBorder);
+      roadGroup.add(rightBorder);
     }
   };
 
@@ -378,7 +387,7 @@ const Game3D: React.FC<Game3DProps> = ({
       // Update speed
       newState.speed += acceleration;
       newState.speed *= 0.98; // Friction
-      newState.speed = Math.max(0, Math.min(newState.speed, 0.5));
+      newState.speed = Math.max(0, Math.min(newState.speed, MAX_SPEED));
       
       // Update steering
       newState.steering = steering * newState.speed;
@@ -511,9 +520,17 @@ const Game3D: React.FC<Game3DProps> = ({
       const obstacleBox = new THREE.Box3().setFromObject(obstacle.mesh);
       
       if (carBox.intersectsBox(obstacleBox)) {
-        // Collision detected
-        gameDataRef.current.health -= 20;
-        onHealthUpdate(gameDataRef.current.health);
+        // Collision detected: obstacles scroll toward the car at its speed (per frame at 60fps)
+        const closingSpeed = (gameDataRef.current.speed / 100) * 60;
+        const damage = DamageModel.calculateDamage({
+          obstacleType: 'barrier',
+          relativeVelocity: new THREE.Vector3(0, 0, -closingSpeed),
+          impactNormal: new THREE.Vector3(0, 0, 1),
+          penetration: 0
+        }, MAX_SPEED * 60);
+        const result = damageModelRef.current.applyDamage(damage);
+        gameDataRef.current.health = result.health;
+        onHealthUpdate(result.health);
         
         // Remove the obstacle
         if (sceneRef.current) {
@@ -521,7 +538,7 @@ const Game3D: React.FC<Game3DProps> = ({
         }
         
         // Check game over
-        if (gameDataRef.current.health <= 0) {
+        if (result.wrecked) {
           onGameOver();
         }
       }
@@ -533,6 +550,13 @@ const Game3D: React.FC<Game3DProps> = ({
     );
   }, [gameState, onHealthUpdate, onGameOver]);
 
+  // Keep the road under the car; snapping to the 10-unit marking spacing hides the jump
+  const updateRoad = useCallback(() => {
+    if (!roadRef.current || !carRef.current) return;
+
+    roadRef.current.position.z = Math.round(carRef.current.position.z / 10) * 10;
+  }, []);
+
   // Update camera
   const updateCamera = useCallback(() => {
     if (!cameraRef.current || !carRef.current) return;
@@ -554,6 +578,7 @@ const Game3D: React.FC<Game3DProps> = ({
       updateCarPhysics();
       updateObstacles();
       checkCollisions();
+      updateRoad();
       updateCamera();
     }
 
@@ -562,7 +587,7 @@ const Game3D: React.FC<Game3DProps> = ({
     }
 
     animationIdRef.current = requestAnimationFrame(gameLoop);
-  }, [gameState, updateCarPhysics, updateObstacles, checkCollisions, updateCamera]);
+  }, [gameState, updateCarPhysics, updateObstacles, checkCollisions, updateRoad, updateCamera]);
 
   // Handle window resize
   const handleResize = useCallback(() => {
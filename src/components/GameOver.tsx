@@ -1,10 +1,10 @@
 "use client";
 
-import React from 'react';
+import React, { useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Trophy, RotateCcw, Home, Star, Zap, Target } from 'lucide-react';
+import { Trophy, RotateCcw, Home, Star, Zap, Target, Film, Download, Upload, Hash } from 'lucide-react';
 
 interface GameOverProps {
   score: number;
@@ -16,6 +16,11 @@ interface GameOverProps {
   isNewRecord: boolean;
   onRestart: () => void;
   onMainMenu: () => void;
+  seed?: number; // The course just driven
+  onRetrySeed?: () => void; // Drive the same course again, against its ghost
+  onWatchReplay?: () => void;
+  onSaveReplay?: () => void;
+  onLoadReplay?: (file: File) => void;
 }
 
 export default function GameOver({
@@ -27,8 +32,24 @@ export default function GameOver({
   highScore,
   isNewRecord,
   onRestart,
-  onMainMenu
+  onMainMenu,
+  seed,
+  onRetrySeed,
+  onWatchReplay,
+  onSaveReplay,
+  onLoadReplay
 }: GameOverProps) {
+  const replayInputRef = useRef<HTMLInputElement>(null);
+
+  const handleReplayFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file && onLoadReplay) {
+      onLoadReplay(file);
+    }
+    // Allow picking the same file again
+    event.target.value = '';
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -174,6 +195,65 @@ export default function GameOver({
             </Button>
           </div>
 
+          {onRetrySeed && (
+            <Button
+              onClick={onRetrySeed}
+              variant="outline"
+              className="w-full border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-white"
+            >
+              <Hash className="w-4 h-4 mr-2" />
+              Retry This Seed{seed !== undefined && ` (${seed})`}
+            </Button>
+          )}
+
+          {/* Replay Controls */}
+          {(onWatchReplay || onSaveReplay || onLoadReplay) && (
+            <div className="flex gap-2 justify-center">
+              {onWatchReplay && (
+                <Button
+                  onClick={onWatchReplay}
+                  variant="outline"
+                  size="sm"
+                  className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-white"
+                >
+                  <Film className="w-4 h-4 mr-2" />
+                  Watch Replay
+                </Button>
+              )}
+              {onSaveReplay && (
+                <Button
+                  onClick={onSaveReplay}
+                  variant="outline"
+                  size="sm"
+                  className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-white"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Save Replay
+                </Button>
+              )}
+              {onLoadReplay && (
+                <>
+                  <Button
+                    onClick={() => replayInputRef.current?.click()}
+                    variant="outline"
+                    size="sm"
+                    className="border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-white"
+                  >
+                    <Upload className="w-4 h-4 mr-2" />
+                    Load Replay
+                  </Button>
+                  <input
+                    ref={replayInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={handleReplayFile}
+                  />
+                </>
+              )}
+            </div>
+          )}
+
           {/* Tips for improvement */}
           <div className="text-center text-sm text-slate-500 pt-2">
             <p>💡 Tip: Navigate precisely between obstacles to build combos and maximize your score!</p>
@@ -9,6 +9,11 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { Volume2, VolumeX, Settings, Monitor, Gamepad2, Palette } from 'lucide-react';
+import { BIOMES, BIOME_ORDER, BiomeId } from '@/lib/game/Biome';
+import { TimeOfDayMode } from '@/lib/game/TimeOfDay';
+import { WEATHERS, WEATHER_ORDER, WeatherMode } from '@/lib/game/Weather';
+import { GRAPHICS_PRESETS, GraphicsQuality } from '@/lib/game/GraphicsQuality';
+import { FRAME_RATE_TARGETS, FrameRateTarget } from '@/lib/game/QualityGovernor';
 
 interface GameSettingsProps {
   isOpen: boolean;
@@ -19,10 +24,15 @@ interface GameSettingsProps {
 
 export interface GameSettings {
   graphics: {
-    quality: 'low' | 'medium' | 'high' | 'ultra';
+    quality: GraphicsQuality;
+    adaptiveQuality: boolean;
+    targetFPS: FrameRateTarget;
     shadows: boolean;
     particles: boolean;
     postProcessing: boolean;
+    bloom: boolean;
+    motionBlur: boolean;
+    vignette: boolean;
     antiAliasing: boolean;
   };
   audio: {
@@ -40,23 +50,34 @@ export interface GameSettings {
   };
   gameplay: {
     difficulty: 'easy' | 'normal' | 'hard' | 'expert';
+    handling: 'arcade' | 'simulation';
+    weather: WeatherMode;
     cameraShake: boolean;
     speedometer: 'kmh' | 'mph';
     showFPS: boolean;
+    performanceOverlay: boolean;
   };
   display: {
     fullscreen: boolean;
     vsync: boolean;
     fov: number;
+    biome: BiomeId;
+    timeOfDay: TimeOfDayMode;
+    startHour: number;
   };
 }
 
 const defaultSettings: GameSettings = {
   graphics: {
     quality: 'high',
+    adaptiveQuality: true,
+    targetFPS: 60,
     shadows: true,
     particles: true,
     postProcessing: true,
+    bloom: true,
+    motionBlur: true,
+    vignette: true,
     antiAliasing: true,
   },
   audio: {
@@ -74,14 +95,20 @@ const defaultSettings: GameSettings = {
   },
   gameplay: {
     difficulty: 'normal',
+    handling: 'arcade',
+    weather: 'clear',
     cameraShake: true,
     speedometer: 'kmh',
     showFPS: false,
+    performanceOverlay: false,
   },
   display: {
     fullscreen: false,
     vsync: true,
     fov: 75,
+    biome: 'countryside',
+    timeOfDay: 'cycle',
+    startHour: 10,
   },
 };
 
@@ -177,8 +204,45 @@ export default function GameSettings({ isOpen, onClose, settings, onSettingsChan
                           <SelectItem value="ultra">Ultra</SelectItem>
                         </SelectContent>
                       </Select>
+                      <p className="text-xs text-slate-400 mt-1">
+                        Up to {GRAPHICS_PRESETS[localSettings.graphics.quality].pixelRatio}x resolution,{' '}
+                        {GRAPHICS_PRESETS[localSettings.graphics.quality].shadowLights} shadow-casting{' '}
+                        {GRAPHICS_PRESETS[localSettings.graphics.quality].shadowLights === 1 ? 'light' : 'lights'} and{' '}
+                        {GRAPHICS_PRESETS[localSettings.graphics.quality].renderDistance}m view distance. Applies instantly
+                      </p>
                     </div>
 
+                    <div className="flex items-center justify-between">
+                      <Label className="text-sm font-medium">Adaptive Quality</Label>
+                      <Switch
+                        checked={localSettings.graphics.adaptiveQuality}
+                        onCheckedChange={(checked: boolean) => updateSettings('graphics', 'adaptiveQuality', checked)}
+                      />
+                    </div>
+
+                    {localSettings.graphics.adaptiveQuality && (
+                      <div>
+                        <Label className="text-sm font-medium mb-2 block">Target Frame Rate</Label>
+                        <Select
+                          value={String(localSettings.graphics.targetFPS)}
+                          onValueChange={(value: string) => updateSettings('graphics', 'targetFPS', Number(value))}
+                        >
+                          <SelectTrigger className="bg-slate-700 border-slate-600">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {FRAME_RATE_TARGETS.map(target => (
+                              <SelectItem key={target} value={String(target)}>{target} FPS</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-slate-400 mt-1">
+                          Lowers resolution, then shadows, then scenery below the preset when frames run slow.
+                          Pick no more than your display&apos;s refresh rate
+                        </p>
+                      </div>
+                    )}
+
                     <div className="flex items-center justify-between">
                       <Label className="text-sm font-medium">Shadows</Label>
                       <Switch
@@ -203,6 +267,35 @@ export default function GameSettings({ isOpen, onClose, settings, onSettingsChan
                       />
                     </div>
 
+                    {localSettings.graphics.postProcessing && (
+                      <div className="space-y-3 pl-4 border-l border-slate-700">
+                        <div className="flex items-center justify-between">
+                          <Label className="text-sm">Bloom</Label>
+                          <Switch
+                            checked={localSettings.graphics.bloom}
+                            onCheckedChange={(checked: boolean) => updateSettings('graphics', 'bloom', checked)}
+                          />
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <Label className="text-sm">Motion Blur</Label>
+                          <Switch
+                            checked={localSettings.graphics.motionBlur}
+                            onCheckedChange={(checked: boolean) => updateSettings('graphics', 'motionBlur', checked)}
+                          />
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <Label className="text-sm">Vignette</Label>
+                          <Switch
+                            checked={localSettings.graphics.vignette}
+                            onCheckedChange={(checked: boolean) => updateSettings('graphics', 'vignette', checked)}
+                          />
+                        </div>
+                        <p className="text-xs text-slate-400">
+                          Low quality skips post-processing; medium drops motion blur and halves bloom
+                        </p>
+                      </div>
+                    )}
+
                     <div className="flex items-center justify-between">
                       <Label className="text-sm font-medium">Anti-Aliasing</Label>
                       <Switch
@@ -364,6 +457,50 @@ export default function GameSettings({ isOpen, onClose, settings, onSettingsChan
                       </Select>
                     </div>
 
+                    <div>
+                      <Label className="text-sm font-medium mb-2 block">Handling Model</Label>
+                      <Select
+                        value={localSettings.gameplay.handling}
+                        onValueChange={(value: string) => updateSettings('gameplay', 'handling', value)}
+                      >
+                        <SelectTrigger className="bg-slate-700 border-slate-600">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="arcade">Arcade</SelectItem>
+                          <SelectItem value="simulation">Simulation (grip &amp; drift)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-slate-400 mt-1">
+                        Simulation adds tire slip and a Space handbrake for drifting
+                      </p>
+                    </div>
+
+                    <div>
+                      <Label className="text-sm font-medium mb-2 block">Weather</Label>
+                      <Select
+                        value={localSettings.gameplay.weather}
+                        onValueChange={(value: string) => updateSettings('gameplay', 'weather', value)}
+                      >
+                        <SelectTrigger className="bg-slate-700 border-slate-600">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {WEATHER_ORDER.map(id => (
+                            <SelectItem key={id} value={id}>
+                              {WEATHERS[id].name} (x{WEATHERS[id].scoreMultiplier} score)
+                            </SelectItem>
+                          ))}
+                          <SelectItem value="dynamic">Dynamic</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-slate-400 mt-1">
+                        {localSettings.gameplay.weather === 'dynamic'
+                          ? 'Weather changes during the run'
+                          : WEATHERS[localSettings.gameplay.weather].description}. Rain, fog and snow cut grip and visibility but pay more
+                      </p>
+                    </div>
+
                     <div className="flex items-center justify-between">
                       <Label className="text-sm font-medium">Camera Shake</Label>
                       <Switch
@@ -395,6 +532,14 @@ export default function GameSettings({ isOpen, onClose, settings, onSettingsChan
                         onCheckedChange={(checked) => updateSettings('gameplay', 'showFPS', checked)}
                       />
                     </div>
+
+                    <div className="flex items-center justify-between">
+                      <Label className="text-sm font-medium">Performance Overlay</Label>
+                      <Switch
+                        checked={localSettings.gameplay.performanceOverlay}
+                        onCheckedChange={(checked: boolean) => updateSettings('gameplay', 'performanceOverlay', checked)}
+                      />
+                    </div>
                   </div>
                 </div>
               )}
@@ -433,6 +578,57 @@ export default function GameSettings({ isOpen, onClose, settings, onSettingsChan
                         className="w-full"
                       />
                     </div>
+
+                    <div>
+                      <Label className="text-sm font-medium mb-2 block">Starting Biome</Label>
+                      <Select
+                        value={localSettings.display.biome}
+                        onValueChange={(value: string) => updateSettings('display', 'biome', value)}
+                      >
+                        <SelectTrigger className="bg-slate-700 border-slate-600">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {BIOME_ORDER.map(id => (
+                            <SelectItem key={id} value={id}>{BIOMES[id].name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-slate-400 mt-1">
+                        {BIOMES[localSettings.display.biome].description}. Each level moves on to the next biome
+                      </p>
+                    </div>
+
+                    <div>
+                      <Label className="text-sm font-medium mb-2 block">Time of Day</Label>
+                      <Select
+                        value={localSettings.display.timeOfDay}
+                        onValueChange={(value: string) => updateSettings('display', 'timeOfDay', value)}
+                      >
+                        <SelectTrigger className="bg-slate-700 border-slate-600">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="cycle">Day/Night Cycle</SelectItem>
+                          <SelectItem value="level">Advance Each Level</SelectItem>
+                          <SelectItem value="fixed">Fixed</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label className="text-sm font-medium mb-2 block">
+                        Starting Hour: {String(localSettings.display.startHour).padStart(2, '0')}:00
+                      </Label>
+                      <Slider
+                        value={[localSettings.display.startHour]}
+                        onValueChange={([value]: number[]) => updateSettings('display', 'startHour', value)}
+                        min={0}
+                        max={23}
+                        step={1}
+                        className="w-full"
+                      />
+                    </div>
                   </div>
                 </div>
               )}
@@ -1,6 +1,6 @@
 'use client';
 
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
@@ -16,8 +16,21 @@ import {
   Zap,
   Heart,
   Trophy,
-  Gauge
+  Gauge,
+  Ghost,
+  Shield,
+  Sparkles,
+  Hourglass,
+  Magnet,
+  Wrench,
+  Flame,
+  CloudRain,
+  CloudFog,
+  Snowflake
 } from 'lucide-react';
+import type { ActivePowerUp, PowerUpType } from '@/lib/game/PowerUpManager';
+import { WEATHERS, WeatherId } from '@/lib/game/Weather';
+import type { QualityReport } from '@/lib/game/QualityGovernor';
 
 interface GameStats {
   score: number;
@@ -25,11 +38,30 @@ interface GameStats {
   speed: number;
   health: number;
   maxHealth: number;
+  lives?: number; // Wrecks left before game over (health refills after each)
   combo: number;
   level: number;
   obstaclesAvoided: number;
+  ghostDelta?: number | null; // Seconds behind (+) or ahead (-) of the ghost
+  nearMisses?: number;
+  lastNearMissBonus?: number;
+  nitro?: number; // Boost meter 0-1
+  isBoosting?: boolean;
+  isDrifting?: boolean;
+  drifts?: number;
+  lastDriftBonus?: number;
+  powerUps?: ActivePowerUp[];
+  weather?: WeatherId;
 }
 
+const POWER_UP_DISPLAY: Record<PowerUpType, { label: string; icon: typeof Shield; className: string }> = {
+  repair: { label: 'Repair', icon: Wrench, className: 'bg-green-500/20 text-green-400 border-green-500/30' },
+  shield: { label: 'Shield', icon: Shield, className: 'bg-sky-500/20 text-sky-400 border-sky-500/30' },
+  multiplier: { label: '2x Score', icon: Sparkles, className: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' },
+  slow_motion: { label: 'Slow-Mo', icon: Hourglass, className: 'bg-purple-500/20 text-purple-400 border-purple-500/30' },
+  magnet: { label: 'Magnet', icon: Magnet, className: 'bg-red-500/20 text-red-400 border-red-500/30' }
+};
+
 interface GameUIProps {
   gameState: 'menu' | 'playing' | 'paused' | 'gameOver';
   stats: GameStats;
@@ -39,8 +71,11 @@ interface GameUIProps {
   onPauseGame: () => void;
   onResumeGame: () => void;
   onRestartGame: () => void;
+  onRetrySeed?: () => void; // Drive the finished run's course again, against its ghost
   onOpenSettings: () => void;
   onToggleAudio: () => void;
+  onBoost?: (pressed: boolean) => void;
+  qualityReport?: QualityReport | null; // Shown as a debug overlay when given
 }
 
 export default function GameUI({
@@ -52,9 +87,49 @@ export default function GameUI({
   onPauseGame,
   onResumeGame,
   onRestartGame,
+  onRetrySeed,
   onOpenSettings,
-  onToggleAudio
+  onToggleAudio,
+  onBoost,
+  qualityReport
 }: GameUIProps) {
+  const [nearMissToast, setNearMissToast] = useState<number | null>(null);
+  const lastNearMisses = useRef(stats.nearMisses ?? 0);
+
+  // Flash a toast whenever the near-miss counter goes up
+  useEffect(() => {
+    const nearMisses = stats.nearMisses ?? 0;
+    if (nearMisses > lastNearMisses.current) {
+      setNearMissToast(stats.lastNearMissBonus ?? 0);
+    }
+    lastNearMisses.current = nearMisses;
+  }, [stats.nearMisses, stats.lastNearMissBonus]);
+
+  // Hide it again shortly after it last changed, whatever the counter does meanwhile
+  useEffect(() => {
+    if (nearMissToast === null) return;
+    const timeout = setTimeout(() => setNearMissToast(null), 1200);
+    return () => clearTimeout(timeout);
+  }, [nearMissToast, stats.nearMisses]);
+
+  const [driftToast, setDriftToast] = useState<number | null>(null);
+  const lastDrifts = useRef(stats.drifts ?? 0);
+
+  // Show the style points once a drift has been scored
+  useEffect(() => {
+    const drifts = stats.drifts ?? 0;
+    if (drifts > lastDrifts.current) {
+      setDriftToast(stats.lastDriftBonus ?? 0);
+    }
+    lastDrifts.current = drifts;
+  }, [stats.drifts, stats.lastDriftBonus]);
+
+  useEffect(() => {
+    if (driftToast === null) return;
+    const timeout = setTimeout(() => setDriftToast(null), 1200);
+    return () => clearTimeout(timeout);
+  }, [driftToast, stats.drifts]);
+
   const healthPercentage = (stats.health / stats.maxHealth) * 100;
   const speedPercentage = Math.min((stats.speed / 200) * 100, 100);
 
@@ -172,6 +247,16 @@ export default function GameUI({
                 Play Again
               </Button>
               
+              {onRetrySeed && (
+                <Button 
+                  onClick={onRetrySeed}
+                  variant="outline" 
+                  className="w-full border-slate-600 text-slate-300 hover:bg-slate-700"
+                >
+                  Retry This Seed
+                </Button>
+              )}
+              
               <Button 
                 onClick={onStartGame}
                 variant="outline" 
@@ -253,6 +338,26 @@ export default function GameUI({
                 {stats.combo}x Combo
               </Badge>
             )}
+            
+            {stats.ghostDelta != null && (
+              <Badge
+                className={stats.ghostDelta <= 0
+                  ? 'bg-green-500/20 text-green-400 border-green-500/30'
+                  : 'bg-red-500/20 text-red-400 border-red-500/30'}
+              >
+                <Ghost className="w-3 h-3 mr-1" />
+                {stats.ghostDelta <= 0 ? '-' : '+'}{Math.abs(stats.ghostDelta).toFixed(2)}s vs ghost
+              </Badge>
+            )}
+            
+            {stats.weather && stats.weather !== 'clear' && (
+              <Badge className="bg-sky-500/20 text-sky-300 border-sky-500/30">
+                {stats.weather === 'rain' && <CloudRain className="w-3 h-3 mr-1" />}
+                {stats.weather === 'fog' && <CloudFog className="w-3 h-3 mr-1" />}
+                {stats.weather === 'snow' && <Snowflake className="w-3 h-3 mr-1" />}
+                {WEATHERS[stats.weather].name} x{WEATHERS[stats.weather].scoreMultiplier}
+              </Badge>
+            )}
           </div>
         </Card>
 
@@ -288,8 +393,11 @@ export default function GameUI({
                 <div className="flex items-center gap-2 text-slate-300">
                   <Heart className="w-4 h-4 text-red-400" />
                   Health
+                  {stats.lives !== undefined && (
+                    <span className="text-red-400 font-semibold">x{stats.lives}</span>
+                  )}
                 </div>
-                <span className="text-slate-400">{stats.health}/{stats.maxHealth}</span>
+                <span className="text-slate-400">{Math.round(stats.health)}/{stats.maxHealth}</span>
               </div>
               <Progress 
                 value={healthPercentage} 
@@ -314,10 +422,109 @@ export default function GameUI({
                 Level {stats.level}
               </Badge>
             </div>
+
+            {/* Nitro Meter */}
+            {stats.nitro !== undefined && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <div className="flex items-center gap-2">
+                    <Flame className={`w-4 h-4 ${stats.isBoosting ? 'text-orange-300 animate-pulse' : 'text-orange-400'}`} />
+                    <span className="text-slate-300">Nitro</span>
+                  </div>
+                  <span className="text-slate-400">{Math.round(stats.nitro * 100)}%</span>
+                </div>
+                <Progress 
+                  value={stats.nitro * 100} 
+                  className="h-2 bg-slate-700"
+                  style={{ '--progress-background': '#f97316' } as React.CSSProperties}
+                />
+              </div>
+            )}
           </div>
         </Card>
       </div>
 
+      {/* Active Power-ups */}
+      {stats.powerUps && stats.powerUps.length > 0 && (
+        <div className="absolute top-4 left-1/2 transform -translate-x-1/2 flex gap-2">
+          {stats.powerUps.map(powerUp => {
+            const display = POWER_UP_DISPLAY[powerUp.type];
+            const Icon = display.icon;
+            return (
+              <div key={powerUp.type} className="flex flex-col items-center gap-1">
+                <Badge className={display.className}>
+                  <Icon className="w-3 h-3 mr-1" />
+                  {display.label} {Math.ceil(powerUp.remaining)}s
+                </Badge>
+                <Progress value={(powerUp.remaining / powerUp.duration) * 100} className="w-16 h-1 bg-slate-700" />
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Near Miss Toast */}
+      {nearMissToast !== null && (
+        <div className="absolute top-1/3 left-1/2 transform -translate-x-1/2 text-center animate-pulse">
+          <div className="text-3xl font-extrabold tracking-widest text-yellow-300 drop-shadow-lg">
+            NEAR MISS
+          </div>
+          <div className="text-lg font-semibold text-yellow-400">+{nearMissToast.toLocaleString()}</div>
+        </div>
+      )}
+
+      {/* Drift Indicator and Toast */}
+      {(stats.isDrifting || driftToast !== null) && (
+        <div className="absolute top-1/4 left-1/2 transform -translate-x-1/2 text-center">
+          <div className="text-2xl font-extrabold italic tracking-widest text-cyan-300 drop-shadow-lg">
+            DRIFT
+          </div>
+          {driftToast !== null && !stats.isDrifting && (
+            <div className="text-lg font-semibold text-cyan-400">+{driftToast.toLocaleString()}</div>
+          )}
+        </div>
+      )}
+
+      {/* Mobile Boost Button */}
+      {onBoost && (
+        <div className="absolute bottom-32 right-4 md:hidden">
+          {/* Never disabled: a disabled button misses the pointer release and would leave nitro held */}
+          <Button
+            size="lg"
+            onPointerDown={() => onBoost(true)}
+            onPointerUp={() => onBoost(false)}
+            onPointerLeave={() => onBoost(false)}
+            onPointerCancel={() => onBoost(false)}
+            className={`w-16 h-16 rounded-full bg-orange-500/80 hover:bg-orange-500 text-white touch-none ${
+              (stats.nitro ?? 0) <= 0 ? 'opacity-40' : ''
+            }`}
+          >
+            <Flame className="w-6 h-6" />
+          </Button>
+        </div>
+      )}
+
+      {/* Adaptive Quality Debug Overlay */}
+      {qualityReport && (
+        <div className="absolute bottom-4 left-4 font-mono text-xs text-slate-300 bg-slate-900/80 border border-slate-700 rounded px-3 py-2 space-y-0.5">
+          <div className={qualityReport.fps < qualityReport.target * 0.9 ? 'text-red-400' : 'text-green-400'}>
+            {qualityReport.fps} / {qualityReport.target} FPS
+          </div>
+          {qualityReport.enabled ? (
+            <>
+              <div>Step {qualityReport.step} of {qualityReport.steps - 1}</div>
+              <div>Resolution {Math.round(qualityReport.quality.resolution * 100)}%</div>
+              <div>Shadows {Math.round(qualityReport.quality.shadows * 100)}%</div>
+              <div>Scenery {Math.round(qualityReport.quality.scenery * 100)}%</div>
+              <div>Next raise after {qualityReport.raiseDelay}s on target</div>
+              <div className="text-slate-400">{qualityReport.decision}</div>
+            </>
+          ) : (
+            <div className="text-slate-400">Adaptive quality off</div>
+          )}
+        </div>
+      )}
+
       {/* Mobile Touch Controls Hint */}
       <div className="absolute bottom-20 left-1/2 transform -translate-x-1/2 md:hidden">
         <div className="text-xs text-slate-400 text-center bg-slate-900/60 px-3 py-1 rounded-full backdrop-blur-sm">
@@ -0,0 +1,106 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Car, Check } from 'lucide-react';
+import { CAR_ROSTER, CarId } from '@/lib/game/CarRoster';
+import type { VehicleSpec } from '@/lib/game/VehicleSpec';
+
+interface GarageProps {
+  selectedCarId: CarId;
+  onSelectCar: (id: CarId) => void;
+  onBack: () => void;
+}
+
+// Stats shown as bars, each scaled against the best car in the roster
+const STAT_BARS: { label: string; key: keyof VehicleSpec }[] = [
+  { label: 'Top Speed', key: 'maxSpeed' },
+  { label: 'Acceleration', key: 'acceleration' },
+  { label: 'Handling', key: 'turnSpeed' },
+  { label: 'Grip', key: 'grip' }
+];
+
+const STAT_MAX = Object.fromEntries(
+  STAT_BARS.map(({ key }) => [key, Math.max(...CAR_ROSTER.map(car => car.spec[key]))])
+) as Record<keyof VehicleSpec, number>;
+
+const toCssColor = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+export default function Garage({ selectedCarId, onSelectCar, onBack }: GarageProps) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gradient-to-br from-slate-900 via-blue-900 to-slate-800 p-4">
+      <Card className="relative w-full max-w-3xl bg-black/40 backdrop-blur-xl border-blue-500/30 shadow-2xl">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="text-3xl font-bold bg-gradient-to-r from-blue-400 to-cyan-400 bg-clip-text text-transparent">
+              Garage
+            </CardTitle>
+            <CardDescription className="text-slate-300">
+              Pick your car before hitting the road
+            </CardDescription>
+          </div>
+          <Button
+            variant="ghost"
+            onClick={onBack}
+            className="text-slate-300 hover:text-white"
+          >
+            <ArrowLeft className="w-5 h-5 mr-2" />
+            Back
+          </Button>
+        </CardHeader>
+
+        <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {CAR_ROSTER.map(car => {
+            const isSelected = car.id === selectedCarId;
+            return (
+              <button
+                key={car.id}
+                onClick={() => onSelectCar(car.id)}
+                className={`text-left rounded-lg border p-4 transition-all duration-200 ${
+                  isSelected
+                    ? 'border-cyan-400 bg-cyan-500/10 shadow-lg'
+                    : 'border-slate-600 bg-slate-800/50 hover:bg-slate-700/50'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-2">
+                    <div
+                      className="w-8 h-8 rounded-md flex items-center justify-center"
+                      style={{ backgroundColor: toCssColor(car.body.color) }}
+                    >
+                      <Car className="w-5 h-5 text-white" />
+                    </div>
+                    <span className="text-lg font-semibold text-white">{car.name}</span>
+                  </div>
+                  {isSelected && (
+                    <Badge className="bg-cyan-500/20 text-cyan-300 border-cyan-500/30">
+                      <Check className="w-3 h-3 mr-1" />
+                      Selected
+                    </Badge>
+                  )}
+                </div>
+
+                <p className="text-sm text-slate-400 mb-3">{car.description}</p>
+
+                <div className="space-y-2">
+                  {STAT_BARS.map(({ label, key }) => (
+                    <div key={key} className="flex items-center gap-2">
+                      <span className="w-24 text-xs text-slate-300">{label}</span>
+                      <Progress
+                        value={(car.spec[key] / STAT_MAX[key]) * 100}
+                        className="h-1.5 flex-1 bg-slate-700"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </button>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,210 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, Paintbrush, RotateCcw } from 'lucide-react';
+import CarPreview from '@/components/CarPreview';
+import { CarId, getCarDefinition } from '@/lib/game/CarRoster';
+import {
+  Livery,
+  RimStyle,
+  StripeStyle,
+  RIM_STYLES,
+  STRIPE_STYLES,
+  createFactoryLivery
+} from '@/lib/game/Livery';
+
+interface LiveryEditorProps {
+  carId: CarId;
+  livery: Livery | null;
+  onSave: (livery: Livery | null) => void;
+  onBack: () => void;
+}
+
+const RIM_LABELS: Record<RimStyle, string> = {
+  solid: 'Solid',
+  spoked: 'Spoked',
+  deep_dish: 'Deep Dish'
+};
+
+const STRIPE_LABELS: Record<StripeStyle, string> = {
+  none: 'None',
+  center: 'Center',
+  twin: 'Twin',
+  side: 'Side'
+};
+
+const toCssColor = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+const fromCssColor = (color: string) => parseInt(color.slice(1), 16);
+
+export default function LiveryEditor({ carId, livery, onSave, onBack }: LiveryEditorProps) {
+  const car = getCarDefinition(carId);
+  const [draft, setDraft] = useState<Livery>(livery ?? createFactoryLivery(car.body));
+
+  const update = <K extends keyof Livery>(key: K, value: Livery[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const optionClass = (active: boolean) =>
+    `h-9 ${active
+      ? 'bg-cyan-600 hover:bg-cyan-700 text-white'
+      : 'bg-slate-800/50 border-slate-600 hover:bg-slate-700/50 text-slate-200'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gradient-to-br from-slate-900 via-blue-900 to-slate-800 p-4">
+      <Card className="relative w-full max-w-3xl bg-black/40 backdrop-blur-xl border-blue-500/30 shadow-2xl">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="text-3xl font-bold bg-gradient-to-r from-blue-400 to-cyan-400 bg-clip-text text-transparent">
+              Paint Shop
+            </CardTitle>
+            <CardDescription className="text-slate-300">
+              Customize the {car.name}
+            </CardDescription>
+          </div>
+          <Button
+            variant="ghost"
+            onClick={onBack}
+            className="text-slate-300 hover:text-white"
+          >
+            <ArrowLeft className="w-5 h-5 mr-2" />
+            Back
+          </Button>
+        </CardHeader>
+
+        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6 text-white">
+          <CarPreview carId={carId} livery={draft} className="w-full h-64 rounded-lg bg-slate-900/60" />
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="text-sm font-medium mb-2 block">Body Color</Label>
+                <input
+                  type="color"
+                  value={toCssColor(draft.bodyColor)}
+                  onChange={(e) => update('bodyColor', fromCssColor(e.target.value))}
+                  className="w-full h-9 rounded bg-slate-700 border border-slate-600 cursor-pointer"
+                />
+              </div>
+              <div>
+                <Label className="text-sm font-medium mb-2 block">Accent Color</Label>
+                <input
+                  type="color"
+                  value={toCssColor(draft.accentColor)}
+                  onChange={(e) => update('accentColor', fromCssColor(e.target.value))}
+                  className="w-full h-9 rounded bg-slate-700 border border-slate-600 cursor-pointer"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label className="text-sm font-medium mb-2 block">
+                Metallic: {Math.round(draft.metalness * 100)}%
+              </Label>
+              <Slider
+                value={[draft.metalness * 100]}
+                onValueChange={([value]: number[]) => update('metalness', value / 100)}
+                max={100}
+                step={1}
+                className="w-full"
+              />
+            </div>
+
+            <div>
+              <Label className="text-sm font-medium mb-2 block">
+                Gloss: {Math.round(draft.gloss * 100)}%
+              </Label>
+              <Slider
+                value={[draft.gloss * 100]}
+                onValueChange={([value]: number[]) => update('gloss', value / 100)}
+                max={100}
+                step={1}
+                className="w-full"
+              />
+            </div>
+
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Rims</Label>
+              <div className="grid grid-cols-3 gap-2">
+                {RIM_STYLES.map(style => (
+                  <Button
+                    key={style}
+                    variant={draft.rimStyle === style ? 'default' : 'outline'}
+                    onClick={() => update('rimStyle', style)}
+                    className={optionClass(draft.rimStyle === style)}
+                  >
+                    {RIM_LABELS[style]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Stripes</Label>
+              <div className="grid grid-cols-4 gap-2">
+                {STRIPE_STYLES.map(style => (
+                  <Button
+                    key={style}
+                    variant={draft.stripes === style ? 'default' : 'outline'}
+                    onClick={() => update('stripes', style)}
+                    className={optionClass(draft.stripes === style)}
+                  >
+                    {STRIPE_LABELS[style]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={draft.number !== null}
+                  onCheckedChange={(checked: boolean) => update('number', checked ? 7 : null)}
+                />
+                <Label className="text-sm font-medium">Race Number</Label>
+              </div>
+              {draft.number !== null && (
+                <input
+                  type="number"
+                  min={0}
+                  max={99}
+                  value={draft.number}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    update('number', Number.isNaN(value) ? 0 : Math.min(Math.max(value, 0), 99));
+                  }}
+                  className="w-20 h-9 px-2 rounded bg-slate-700 border border-slate-600 text-white"
+                />
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 pt-2">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setDraft(createFactoryLivery(car.body));
+                  onSave(null);
+                }}
+                className="h-11 bg-slate-800/50 border-slate-600 hover:bg-slate-700/50 text-slate-200"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Factory Paint
+              </Button>
+              <Button
+                onClick={() => onSave(draft)}
+                className="h-11 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700"
+              >
+                <Paintbrush className="w-4 h-4 mr-2" />
+                Save Livery
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
\ No newline at end of file
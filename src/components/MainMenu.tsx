@@ -1,16 +1,25 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Play, Settings, Trophy, Info, Volume2, VolumeX } from 'lucide-react';
+import { Play, Settings, Trophy, Info, Volume2, VolumeX, Car, Paintbrush, Hash } from 'lucide-react';
+import CarPreview from '@/components/CarPreview';
+import { CarId, getCarDefinition } from '@/lib/game/CarRoster';
+import type { Livery } from '@/lib/game/Livery';
+import { MathUtils } from '@/lib/utils/math-utils';
 
 interface MainMenuProps {
   onStartGame: () => void;
+  onStartSeed?: (seed: number) => void; // Race a chosen course, e.g. to beat its stored ghost
   onShowSettings: () => void;
   onShowLeaderboard: () => void;
   onShowInstructions: () => void;
+  onShowGarage: () => void;
+  onShowPaintShop: () => void;
+  selectedCarId?: CarId;
+  livery?: Livery | null;
   highScore: number;
   soundEnabled: boolean;
   onToggleSound: () => void;
@@ -18,13 +27,27 @@ interface MainMenuProps {
 
 export default function MainMenu({
   onStartGame,
+  onStartSeed,
   onShowSettings,
   onShowLeaderboard,
   onShowInstructions,
+  onShowGarage,
+  onShowPaintShop,
+  selectedCarId,
+  livery = null,
   highScore,
   soundEnabled,
   onToggleSound
 }: MainMenuProps) {
+  const [seedText, setSeedText] = useState('');
+
+  // A number is used as the seed itself; any other text is hashed into one
+  const startSeed = () => {
+    const text = seedText.trim();
+    if (!text || !onStartSeed) return;
+    onStartSeed(/^\d+$/.test(text) ? Number(text) >>> 0 : MathUtils.hashSeed(text));
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-gradient-to-br from-slate-900 via-blue-900 to-slate-800">
       {/* Animated background elements */}
@@ -70,6 +93,27 @@ export default function MainMenu({
             Start Racing
           </Button>
 
+          {onStartSeed && (
+            <div className="flex gap-2">
+              <input
+                value={seedText}
+                onChange={(e) => setSeedText(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && startSeed()}
+                placeholder="Seed number or word"
+                className="flex-1 h-10 px-3 rounded-md bg-slate-800/50 border border-slate-600 text-slate-200 placeholder:text-slate-500"
+              />
+              <Button
+                variant="outline"
+                onClick={startSeed}
+                disabled={!seedText.trim()}
+                className="h-10 bg-slate-800/50 border-slate-600 hover:bg-slate-700/50 text-slate-200"
+              >
+                <Hash className="w-4 h-4 mr-1" />
+                Race Seed
+              </Button>
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-3">
             <Button 
               variant="outline" 
@@ -90,14 +134,45 @@ export default function MainMenu({
             </Button>
           </div>
 
-          <Button 
-            variant="outline" 
-            onClick={onShowInstructions}
-            className="w-full h-12 bg-slate-800/50 border-slate-600 hover:bg-slate-700/50 text-slate-200"
-          >
-            <Info className="w-5 h-5 mr-2" />
-            How to Play
-          </Button>
+          <div className="grid grid-cols-2 gap-3">
+            <Button 
+              variant="outline" 
+              onClick={onShowGarage}
+              className="h-12 bg-slate-800/50 border-slate-600 hover:bg-slate-700/50 text-slate-200"
+            >
+              <Car className="w-5 h-5 mr-2" />
+              Garage
+            </Button>
+
+            <Button 
+              variant="outline" 
+              onClick={onShowInstructions}
+              className="h-12 bg-slate-800/50 border-slate-600 hover:bg-slate-700/50 text-slate-200"
+            >
+              <Info className="w-5 h-5 mr-2" />
+              How to Play
+            </Button>
+          </div>
+
+          {selectedCarId && (
+            <div className="space-y-2">
+              <CarPreview carId={selectedCarId} livery={livery} className="w-full h-32" />
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-slate-400">
+                  Driving: <span className="text-cyan-300 font-medium">{getCarDefinition(selectedCarId).name}</span>
+                </p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onShowPaintShop}
+                  className="text-slate-300 hover:text-white"
+                >
+                  <Paintbrush className="w-4 h-4 mr-1" />
+                  Paint
+                </Button>
+              </div>
+            </div>
+          )}
 
           <div className="flex justify-center pt-4">
             <Button
@@ -131,6 +206,10 @@ export default function MainMenu({
             <kbd className="px-2 py-1 bg-slate-800 rounded text-xs">Space</kbd>
             <span>Brake</span>
           </div>
+          <div className="flex items-center space-x-1">
+            <kbd className="px-2 py-1 bg-slate-800 rounded text-xs">Shift</kbd>
+            <span>Nitro</span>
+          </div>
         </div>
       </div>
 
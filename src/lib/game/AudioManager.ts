@@ -0,0 +1,523 @@
+// Audio playback and mixing system for the 3D car racing game
+import { MathUtils } from '../utils/math-utils';
+import { EngineSound, EngineSoundInput } from './EngineSound';
+import type { PowerUpType } from './PowerUpManager';
+
+export type SoundName = 'collision' | 'levelUp' | 'gameOver' | 'music' | 'pickup';
+
+export interface AudioManagerOptions {
+  headless?: boolean; // Skip Web Audio entirely (Node, tests, SSR)
+  assets?: Partial<Record<SoundName, string>>; // Optional URLs for recorded sounds
+}
+
+type AudioBus = 'master' | 'sfx' | 'music' | 'engine';
+
+export class AudioManager {
+  private context: AudioContext | null = null;
+  private headless: boolean;
+  private assets: Partial<Record<SoundName, string>>;
+  private buffers: Map<SoundName, AudioBuffer> = new Map();
+
+  // Mixer buses: sfx, music and engine feed master, master feeds the destination
+  private masterGain: GainNode | null = null;
+  private sfxGain: GainNode | null = null;
+  private musicGain: GainNode | null = null;
+  private engineGain: GainNode | null = null;
+  private engineSound: EngineSound | null = null;
+
+  private volumes: Record<AudioBus, number> = {
+    master: 0.7,
+    sfx: 0.8,
+    music: 0.5,
+    engine: 0.7
+  };
+  private muted: boolean = false;
+
+  // Background music state
+  private musicSource: AudioBufferSourceNode | null = null;
+  private musicNodes: AudioScheduledSourceNode[] = [];
+  private musicTimer: ReturnType<typeof setInterval> | null = null;
+  private musicStep: number = 0;
+  private musicPlaying: boolean = false;
+  private musicPaused: boolean = false;
+
+  constructor(options: AudioManagerOptions = {}) {
+    this.headless = options.headless ?? !AudioManager.isSupported();
+    this.assets = options.assets ?? {};
+  }
+
+  /**
+   * Check whether the Web Audio API is available in this environment
+   */
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' &&
+      (typeof window.AudioContext !== 'undefined' ||
+       typeof (window as any).webkitAudioContext !== 'undefined');
+  }
+
+  /**
+   * Initialize audio manager and load any configured sound assets
+   */
+  async initialize(): Promise<void> {
+    if (this.headless) {
+      console.log('Audio manager initialized (headless)');
+      return;
+    }
+
+    this.ensureContext();
+    await this.loadAssets();
+    console.log('Audio manager initialized');
+  }
+
+  /**
+   * Lazily create the audio context and mixer graph
+   */
+  private ensureContext(): AudioContext | null {
+    if (this.headless) return null;
+    if (this.context) return this.context;
+
+    const ContextClass: typeof AudioContext =
+      window.AudioContext || (window as any).webkitAudioContext;
+    this.context = new ContextClass();
+
+    this.masterGain = this.context.createGain();
+    this.sfxGain = this.context.createGain();
+    this.musicGain = this.context.createGain();
+    this.engineGain = this.context.createGain();
+
+    this.sfxGain.connect(this.masterGain);
+    this.musicGain.connect(this.masterGain);
+    this.engineGain.connect(this.masterGain);
+    this.masterGain.connect(this.context.destination);
+
+    this.applyVolumes();
+    return this.context;
+  }
+
+  /**
+   * Resume a suspended context (browsers require a user gesture first)
+   */
+  private resumeContext(): AudioContext | null {
+    const context = this.ensureContext();
+    if (context && context.state === 'suspended') {
+      context.resume().catch(() => {
+        // Will retry on the next playback request
+      });
+    }
+    return context;
+  }
+
+  /**
+   * Fetch and decode sound files; missing ones fall back to synthesized sounds
+   */
+  private async loadAssets(): Promise<void> {
+    const context = this.context;
+    if (!context) return;
+
+    const entries = Object.entries(this.assets) as [SoundName, string][];
+    await Promise.all(entries.map(async ([name, url]) => {
+      try {
+        const response = await fetch(url);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        const data = await response.arrayBuffer();
+        this.buffers.set(name, await context.decodeAudioData(data));
+      } catch (error) {
+        console.warn(`Failed to load sound "${name}" from ${url}, using placeholder`, error);
+      }
+    }));
+  }
+
+  /**
+   * Push current volume and mute state into the gain nodes
+   */
+  private applyVolumes(): void {
+    if (!this.context || !this.masterGain || !this.sfxGain || !this.musicGain || !this.engineGain) return;
+
+    const now = this.context.currentTime;
+    const master = this.muted ? 0 : this.volumes.master;
+    this.masterGain.gain.setTargetAtTime(master, now, 0.02);
+    this.sfxGain.gain.setTargetAtTime(this.volumes.sfx, now, 0.02);
+    this.musicGain.gain.setTargetAtTime(this.volumes.music, now, 0.02);
+    this.engineGain.gain.setTargetAtTime(this.volumes.engine, now, 0.02);
+  }
+
+  /**
+   * Set master volume (0-1)
+   */
+  setMasterVolume(volume: number): void {
+    this.volumes.master = MathUtils.clamp(volume, 0, 1);
+    this.applyVolumes();
+  }
+
+  /**
+   * Set sound effects volume (0-1)
+   */
+  setSFXVolume(volume: number): void {
+    this.volumes.sfx = MathUtils.clamp(volume, 0, 1);
+    this.applyVolumes();
+  }
+
+  /**
+   * Set music volume (0-1)
+   */
+  setMusicVolume(volume: number): void {
+    this.volumes.music = MathUtils.clamp(volume, 0, 1);
+    this.applyVolumes();
+  }
+
+  /**
+   * Set engine sound volume (0-1)
+   */
+  setEngineVolume(volume: number): void {
+    this.volumes.engine = MathUtils.clamp(volume, 0, 1);
+    this.applyVolumes();
+  }
+
+  /**
+   * Mute or unmute all audio
+   */
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    this.applyVolumes();
+  }
+
+  /**
+   * Play a loaded sound buffer on the given bus
+   */
+  private playBuffer(name: SoundName, bus: GainNode, loop: boolean = false): AudioBufferSourceNode | null {
+    const buffer = this.buffers.get(name);
+    if (!this.context || !buffer) return null;
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = loop;
+    source.connect(bus);
+    source.start();
+    return source;
+  }
+
+  /**
+   * Play a single synthesized tone with an attack/decay envelope
+   */
+  private playTone(
+    bus: GainNode,
+    frequency: number,
+    startTime: number,
+    duration: number,
+    options: { type?: OscillatorType; volume?: number; endFrequency?: number } = {}
+  ): OscillatorNode | null {
+    if (!this.context) return null;
+
+    const oscillator = this.context.createOscillator();
+    const envelope = this.context.createGain();
+    const volume = options.volume ?? 0.3;
+
+    oscillator.type = options.type ?? 'sine';
+    oscillator.frequency.setValueAtTime(frequency, startTime);
+    if (options.endFrequency !== undefined) {
+      oscillator.frequency.exponentialRampToValueAtTime(
+        Math.max(options.endFrequency, 1),
+        startTime + duration
+      );
+    }
+
+    envelope.gain.setValueAtTime(0.0001, startTime);
+    envelope.gain.exponentialRampToValueAtTime(volume, startTime + 0.01);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, startTime + duration);
+
+    oscillator.connect(envelope);
+    envelope.connect(bus);
+    oscillator.start(startTime);
+    oscillator.stop(startTime + duration + 0.05);
+    return oscillator;
+  }
+
+  /**
+   * Play a burst of filtered white noise
+   */
+  private playNoise(bus: GainNode, startTime: number, duration: number, volume: number, cutoff: number): void {
+    if (!this.context) return;
+
+    const length = Math.floor(this.context.sampleRate * duration);
+    const buffer = this.context.createBuffer(1, length, this.context.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < length; i++) {
+      data[i] = Math.random() * 2 - 1;
+    }
+
+    const source = this.context.createBufferSource();
+    const filter = this.context.createBiquadFilter();
+    const envelope = this.context.createGain();
+
+    source.buffer = buffer;
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(cutoff, startTime);
+    filter.frequency.exponentialRampToValueAtTime(100, startTime + duration);
+    envelope.gain.setValueAtTime(volume, startTime);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, startTime + duration);
+
+    source.connect(filter);
+    filter.connect(envelope);
+    envelope.connect(bus);
+    source.start(startTime);
+  }
+
+  /**
+   * Play collision impact sound
+   */
+  playCollisionSound(): void {
+    const context = this.resumeContext();
+    if (!context || !this.sfxGain) return;
+    if (this.playBuffer('collision', this.sfxGain)) return;
+
+    const now = context.currentTime;
+    this.playNoise(this.sfxGain, now, 0.4, 0.8, 2000);
+    this.playTone(this.sfxGain, 120, now, 0.3, { type: 'square', volume: 0.4, endFrequency: 40 });
+  }
+
+  /**
+   * Play level up jingle
+   */
+  playLevelUpSound(): void {
+    const context = this.resumeContext();
+    if (!context || !this.sfxGain) return;
+    if (this.playBuffer('levelUp', this.sfxGain)) return;
+
+    const now = context.currentTime;
+    const notes = [523.25, 659.25, 783.99, 1046.5]; // C5 E5 G5 C6
+    notes.forEach((frequency, i) => {
+      this.playTone(this.sfxGain!, frequency, now + i * 0.1, 0.25, { type: 'triangle', volume: 0.3 });
+    });
+  }
+
+  /**
+   * Play power-up pickup chime (each type has its own motif)
+   */
+  playPickupSound(type: PowerUpType): void {
+    const context = this.resumeContext();
+    if (!context || !this.sfxGain) return;
+    if (this.playBuffer('pickup', this.sfxGain)) return;
+
+    const bus = this.sfxGain;
+    const now = context.currentTime;
+
+    switch (type) {
+      case 'repair':
+        [523.25, 783.99].forEach((frequency, i) => {
+          this.playTone(bus, frequency, now + i * 0.08, 0.2, { type: 'sine', volume: 0.3 });
+        });
+        break;
+      case 'shield':
+        this.playTone(bus, 220, now, 0.35, { type: 'square', volume: 0.15, endFrequency: 880 });
+        break;
+      case 'multiplier':
+        [659.25, 987.77, 1318.51].forEach((frequency, i) => {
+          this.playTone(bus, frequency, now + i * 0.05, 0.15, { type: 'triangle', volume: 0.25 });
+        });
+        break;
+      case 'slow_motion':
+        this.playTone(bus, 880, now, 0.6, { type: 'sine', volume: 0.3, endFrequency: 220 });
+        break;
+      case 'magnet':
+        [440, 554.37, 440, 554.37].forEach((frequency, i) => {
+          this.playTone(bus, frequency, now + i * 0.06, 0.1, { type: 'triangle', volume: 0.2 });
+        });
+        break;
+    }
+  }
+
+  /**
+   * Play game over sound
+   */
+  playGameOverSound(): void {
+    const context = this.resumeContext();
+    if (!context || !this.sfxGain) return;
+    if (this.playBuffer('gameOver', this.sfxGain)) return;
+
+    const now = context.currentTime;
+    const notes = [392.0, 349.23, 311.13, 261.63]; // G4 F4 Eb4 C4
+    notes.forEach((frequency, i) => {
+      this.playTone(this.sfxGain!, frequency, now + i * 0.25, 0.4, { type: 'sawtooth', volume: 0.2 });
+    });
+  }
+
+  /**
+   * Start background music from the beginning
+   */
+  playBackgroundMusic(): void {
+    const context = this.resumeContext();
+    this.stopBackgroundMusic();
+    this.musicPlaying = true;
+    this.musicPaused = false;
+    if (!context || !this.musicGain) return;
+
+    this.musicSource = this.playBuffer('music', this.musicGain, true);
+    if (!this.musicSource) {
+      this.musicStep = 0;
+      this.startMusicSequencer();
+    }
+  }
+
+  /**
+   * Pause background music, keeping its position
+   */
+  pauseBackgroundMusic(): void {
+    if (!this.musicPlaying || this.musicPaused) return;
+    this.musicPaused = true;
+
+    if (this.musicTimer) {
+      clearInterval(this.musicTimer);
+      this.musicTimer = null;
+    }
+    if (this.context && this.context.state === 'running') {
+      this.context.suspend().catch(() => {
+        // Context may already be closing
+      });
+    }
+  }
+
+  /**
+   * Resume paused background music
+   */
+  resumeBackgroundMusic(): void {
+    if (!this.musicPlaying || !this.musicPaused) return;
+    this.musicPaused = false;
+
+    this.resumeContext();
+    if (!this.musicSource) {
+      this.startMusicSequencer();
+    }
+  }
+
+  /**
+   * Stop background music completely
+   */
+  stopBackgroundMusic(): void {
+    this.musicPlaying = false;
+    this.musicPaused = false;
+
+    if (this.musicTimer) {
+      clearInterval(this.musicTimer);
+      this.musicTimer = null;
+    }
+    if (this.musicSource) {
+      this.musicSource.stop();
+      this.musicSource.disconnect();
+      this.musicSource = null;
+    }
+    this.musicNodes.forEach(node => {
+      try {
+        node.stop();
+      } catch {
+        // Node already finished
+      }
+    });
+    this.musicNodes = [];
+  }
+
+  /**
+   * Placeholder music: a looping bass and arpeggio pattern scheduled in steps
+   */
+  private startMusicSequencer(): void {
+    if (!this.context || !this.musicGain || this.musicTimer) return;
+
+    const stepDuration = 0.2;
+    const bassLine = [110, 110, 130.81, 98];            // A2 A2 C3 G2
+    const arpeggio = [440, 523.25, 659.25, 523.25];     // A4 C5 E5 C5
+
+    const playStep = () => {
+      if (!this.context || !this.musicGain) return;
+      const now = this.context.currentTime;
+      const bar = Math.floor(this.musicStep / 4) % bassLine.length;
+
+      if (this.musicStep % 4 === 0) {
+        const bass = this.playTone(this.musicGain, bassLine[bar], now, stepDuration * 4, {
+          type: 'sawtooth',
+          volume: 0.15
+        });
+        if (bass) this.musicNodes.push(bass);
+      }
+
+      const lead = this.playTone(this.musicGain, arpeggio[this.musicStep % arpeggio.length], now, stepDuration * 0.9, {
+        type: 'square',
+        volume: 0.05
+      });
+      if (lead) this.musicNodes.push(lead);
+
+      // Drop finished nodes so the list stays short
+      if (this.musicNodes.length > 16) {
+        this.musicNodes.splice(0, this.musicNodes.length - 16);
+      }
+      this.musicStep++;
+    };
+
+    playStep();
+    this.musicTimer = setInterval(playStep, stepDuration * 1000);
+  }
+
+  /**
+   * Start the synthesized engine voice at idle
+   */
+  startEngineSound(): void {
+    const context = this.resumeContext();
+    if (!context || !this.engineGain) return;
+
+    if (!this.engineSound) {
+      this.engineSound = new EngineSound(context, this.engineGain);
+    }
+    this.engineSound.start();
+  }
+
+  /**
+   * Drive engine pitch and timbre from the current car state
+   */
+  updateEngineSound(input: EngineSoundInput): void {
+    this.engineSound?.update(input);
+  }
+
+  /**
+   * Stop the engine voice
+   */
+  stopEngineSound(): void {
+    this.engineSound?.stop();
+  }
+
+  /**
+   * Check if audio output is disabled
+   */
+  isHeadless(): boolean {
+    return this.headless;
+  }
+
+  /**
+   * Check if background music is currently playing
+   */
+  isMusicPlaying(): boolean {
+    return this.musicPlaying && !this.musicPaused;
+  }
+
+  /**
+   * Dispose of audio manager
+   */
+  dispose(): void {
+    this.stopBackgroundMusic();
+    this.stopEngineSound();
+    this.engineSound = null;
+    this.buffers.clear();
+
+    if (this.context) {
+      this.context.close().catch(() => {
+        // Ignore errors from an already closed context
+      });
+      this.context = null;
+    }
+    this.masterGain = null;
+    this.sfxGain = null;
+    this.musicGain = null;
+    this.engineGain = null;
+
+    console.log('Audio manager disposed');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,170 @@
+// Biome themes for the 3D car racing game
+import type { RoadsidePropType } from '../utils/three-utils';
+
+export type BiomeId = 'countryside' | 'desert' | 'neon_city' | 'snow';
+
+export interface BiomePalette {
+  skyTop: number;
+  skyHorizon: number; // Also the fog color, so distant scenery melts into the sky
+  ground: number;
+  shoulder: number;
+  road: number;
+  marking: number;
+}
+
+export interface BiomeLighting {
+  ambient: number;
+  ambientIntensity: number;
+  hemisphereSky: number;
+  hemisphereGround: number;
+  sun: number;
+  sunIntensity: number;
+  accentLights: number[]; // Colored point lights travelling with the car
+}
+
+// One kind of prop lined up along both sides of the road
+export interface SceneryRule {
+  type: RoadsidePropType;
+  spacing: number; // Distance between candidate spots on each side
+  chance: number; // Probability a spot is filled
+  offset: [number, number]; // Distance from the road edge, min to max
+}
+
+export interface BiomeDefinition {
+  id: BiomeId;
+  name: string;
+  description: string;
+  palette: BiomePalette;
+  fog: { near: number; far: number };
+  lighting: BiomeLighting;
+  scenery: SceneryRule[];
+}
+
+export const BIOMES: Record<BiomeId, BiomeDefinition> = {
+  countryside: {
+    id: 'countryside',
+    name: 'Countryside',
+    description: 'Rolling green fields, orchards and farm lanes',
+    palette: {
+      skyTop: 0x4a90d9,
+      skyHorizon: 0x87ceeb,
+      ground: 0x2d5a27,
+      shoulder: 0x3b6d2f,
+      road: 0x333333,
+      marking: 0xffffff
+    },
+    fog: { near: 100, far: 1000 },
+    lighting: {
+      ambient: 0x404040,
+      ambientIntensity: 0.3,
+      hemisphereSky: 0x87ceeb,
+      hemisphereGround: 0x362d1d,
+      sun: 0xffffff,
+      sunIntensity: 1.0,
+      accentLights: []
+    },
+    scenery: [
+      { type: 'tree', spacing: 12, chance: 0.6, offset: [4, 30] },
+      { type: 'guard_rail', spacing: 8, chance: 1, offset: [0.5, 0.5] },
+      { type: 'street_lamp', spacing: 80, chance: 0.5, offset: [2, 2] }
+    ]
+  },
+  desert: {
+    id: 'desert',
+    name: 'Desert',
+    description: 'Sun-baked dunes, cacti and red rock',
+    palette: {
+      skyTop: 0x3d7fc4,
+      skyHorizon: 0xf2d6a2,
+      ground: 0xd8b06a,
+      shoulder: 0xc99d58,
+      road: 0x46403a,
+      marking: 0xffd54f
+    },
+    fog: { near: 150, far: 1000 },
+    lighting: {
+      ambient: 0x5a4a30,
+      ambientIntensity: 0.35,
+      hemisphereSky: 0xffe0b0,
+      hemisphereGround: 0x8a5a2b,
+      sun: 0xfff1d6,
+      sunIntensity: 1.2,
+      accentLights: []
+    },
+    scenery: [
+      { type: 'cactus', spacing: 16, chance: 0.5, offset: [3, 35] },
+      { type: 'rock', spacing: 24, chance: 0.4, offset: [4, 40] },
+      { type: 'marker_post', spacing: 20, chance: 1, offset: [1, 1] }
+    ]
+  },
+  neon_city: {
+    id: 'neon_city',
+    name: 'Neon City',
+    description: 'Glowing towers and cyan-magenta streets at night',
+    palette: {
+      skyTop: 0x05001a,
+      skyHorizon: 0x000033,
+      ground: 0x0d0d1a,
+      shoulder: 0x1a1a2e,
+      road: 0x1c1c24,
+      marking: 0x00ffff
+    },
+    fog: { near: 50, far: 400 },
+    lighting: {
+      ambient: 0x404040,
+      ambientIntensity: 0.3,
+      hemisphereSky: 0x3a1f6b,
+      hemisphereGround: 0x000033,
+      sun: 0x8080ff,
+      sunIntensity: 0.3,
+      accentLights: [0x00ffff, 0xff00ff]
+    },
+    scenery: [
+      { type: 'building', spacing: 18, chance: 0.85, offset: [6, 20] },
+      { type: 'street_lamp', spacing: 30, chance: 1, offset: [2, 2] },
+      { type: 'guard_rail', spacing: 8, chance: 1, offset: [0.5, 0.5] }
+    ]
+  },
+  snow: {
+    id: 'snow',
+    name: 'Snow',
+    description: 'Frozen passes lined with snowy pines',
+    palette: {
+      skyTop: 0x9fb8cc,
+      skyHorizon: 0xdde6ee,
+      ground: 0xf2f5f8,
+      shoulder: 0xe2e8ee,
+      road: 0x4a4f55,
+      marking: 0xffffff
+    },
+    fog: { near: 60, far: 600 },
+    lighting: {
+      ambient: 0x8090a0,
+      ambientIntensity: 0.4,
+      hemisphereSky: 0xdde6ee,
+      hemisphereGround: 0x9aa5b0,
+      sun: 0xe8f0ff,
+      sunIntensity: 0.8,
+      accentLights: []
+    },
+    scenery: [
+      { type: 'pine', spacing: 10, chance: 0.7, offset: [3, 30] },
+      { type: 'rock', spacing: 30, chance: 0.3, offset: [4, 30] },
+      { type: 'guard_rail', spacing: 8, chance: 1, offset: [0.5, 0.5] },
+      { type: 'marker_post', spacing: 20, chance: 1, offset: [1, 1] }
+    ]
+  }
+};
+
+// Order biomes follow as levels progress
+export const BIOME_ORDER: BiomeId[] = ['countryside', 'desert', 'neon_city', 'snow'];
+
+export const DEFAULT_BIOME_ID: BiomeId = 'countryside';
+
+/**
+ * Biome for a level: runs start in the chosen biome and move on one biome per level
+ */
+export function getBiomeForLevel(startBiome: BiomeId, level: number): BiomeDefinition {
+  const start = BIOME_ORDER.indexOf(startBiome);
+  return BIOMES[BIOME_ORDER[(start + Math.max(level - 1, 0)) % BIOME_ORDER.length]];
+}
\ No newline at end of file
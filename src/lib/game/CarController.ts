@@ -1,6 +1,8 @@
 // Car physics and control system for the 3D car racing game
 import * as THREE from 'three';
 import { MathUtils } from '../utils/math-utils';
+import { VehicleSpec, PhysicsModel, DEFAULT_VEHICLE_SPEC, DEFAULT_PHYSICS_MODEL } from './VehicleSpec';
+import { DRIVABLE_HALF_WIDTH } from './RoadPath';
 
 export interface ControlSettings {
   sensitivity: number;
@@ -10,13 +12,32 @@ export interface ControlSettings {
 export class CarController {
   private car: THREE.Group | null = null;
   private position: THREE.Vector3 = new THREE.Vector3();
+  private previousPosition: THREE.Vector3 = new THREE.Vector3();
+  private previousRotation: number = 0;
   private velocity: THREE.Vector3 = new THREE.Vector3();
   private rotation: number = 0;
-  private speed: number = 0;
-  private maxSpeed: number = 25;
-  private acceleration: number = 15;
-  private deceleration: number = 10;
-  private turnSpeed: number = 2.5;
+  private speed: number = 0; // Along the heading
+  private spec: VehicleSpec = { ...DEFAULT_VEHICLE_SPEC };
+  private physicsModel: PhysicsModel = DEFAULT_PHYSICS_MODEL;
+  private surfaceGrip: number = 1; // Road condition, 1 = dry (weather lowers it)
+  
+  // Simulation model state: sideways slide, slip and load shift
+  private lateralSpeed: number = 0; // Across the heading, + = right
+  private slipAngle: number = 0; // Radians between heading and travel direction
+  private loadTransfer: number = 0; // + = weight on the front tires (braking)
+  private handbraking: boolean = false;
+  private readonly HANDBRAKE_DRAG = 0.6; // Share of braking deceleration
+  private readonly HANDBRAKE_YAW_BOOST = 1.3; // Rear lets go, so the nose swings faster
+  private readonly FULL_STEER_SPEED = 5; // Below this steering fades out
+  private readonly DRIFT_SLIP_ANGLE = 0.2; // Radians
+  private readonly DRIFT_MIN_SPEED = 8;
+  
+  // Nitro boost: raises top speed and acceleration while draining the meter
+  private nitro: number = 1; // Meter 0-1
+  private boosting: boolean = false;
+  private readonly NITRO_SPEED_FACTOR = 1.4; // Of the car's top speed
+  private readonly NITRO_ACCELERATION_FACTOR = 2;
+  private readonly NITRO_DRAIN_RATE = 0.3; // Meter per second, a little over 3s of boost
   
   private keys: { [key: string]: boolean } = {};
   private settings: ControlSettings = {
@@ -24,6 +45,7 @@ export class CarController {
     invertSteering: false
   };
   
+  private distanceTraveled: number = 0;
   private wheelRotation: number = 0;
   private engineSound: number = 0;
   private boundingBox: THREE.Box3 = new THREE.Box3();
@@ -37,6 +59,7 @@ export class CarController {
     
     // Set initial position
     this.position.set(0, 0.5, 0);
+    this.previousPosition.copy(this.position);
     this.car.position.copy(this.position);
     
     // Initialize bounding box
@@ -45,12 +68,26 @@ export class CarController {
     console.log('Car controller initialized');
   }
 
+  /**
+   * Swap the car model (e.g. a different roster car); state is kept
+   */
+  setCarMesh(carMesh: THREE.Group): void {
+    this.car = carMesh;
+    this.car.position.copy(this.position);
+    this.car.rotation.set(0, this.rotation, 0);
+    this.updateBoundingBox();
+  }
+
   /**
    * Update car physics and animation
    */
   update(deltaTime: number): void {
     if (!this.car) return;
 
+    // Remember last state for render interpolation
+    this.previousPosition.copy(this.position);
+    this.previousRotation = this.rotation;
+
     // Handle input
     this.handleInput(deltaTime);
     
@@ -73,33 +110,100 @@ export class CarController {
     const inputSteering = 
       (this.keys['ArrowLeft'] || this.keys['KeyA'] ? -1 : 0) +
       (this.keys['ArrowRight'] || this.keys['KeyD'] ? 1 : 0);
+    const inputBoost = this.keys['ShiftLeft'] || this.keys['ShiftRight'] || false;
+    const inputHandbrake = this.keys['Space'] || false;
+    const previousSpeed = this.speed;
 
     // Apply sensitivity
     const adjustedSteering = inputSteering * this.settings.sensitivity;
     const finalSteering = this.settings.invertSteering ? -adjustedSteering : adjustedSteering;
 
+    // Nitro only works while rolling forward and the meter has charge
+    this.boosting = inputBoost && this.nitro > 0 && this.speed > 0;
+
+    // Slippery roads spin the wheels under throttle and lock them under braking
+    const acceleration = this.spec.acceleration * this.surfaceGrip;
+    const braking = this.spec.deceleration * this.surfaceGrip;
+
     // Acceleration
-    if (inputAcceleration > 0) {
-      this.speed = Math.min(this.speed + this.acceleration * deltaTime, this.maxSpeed);
+    if (this.boosting) {
+      this.nitro = Math.max(0, this.nitro - this.NITRO_DRAIN_RATE * deltaTime);
+      this.speed = Math.min(
+        this.speed + acceleration * this.NITRO_ACCELERATION_FACTOR * deltaTime,
+        this.spec.maxSpeed * this.NITRO_SPEED_FACTOR
+      );
+    } else if (inputAcceleration > 0) {
+      // Bleed boost speed back down to the normal top speed
+      this.speed = this.speed > this.spec.maxSpeed
+        ? Math.max(this.speed - this.spec.deceleration * deltaTime, this.spec.maxSpeed)
+        : Math.min(this.speed + acceleration * deltaTime, this.spec.maxSpeed);
     } else if (inputBraking > 0) {
-      this.speed = Math.max(this.speed - this.deceleration * deltaTime, -this.maxSpeed * 0.5);
+      this.speed = Math.max(this.speed - braking * deltaTime, -this.spec.maxSpeed * 0.5);
     } else {
       // Natural deceleration
       if (this.speed > 0) {
-        this.speed = Math.max(this.speed - this.deceleration * 0.5 * deltaTime, 0);
+        this.speed = Math.max(this.speed - this.spec.deceleration * 0.5 * deltaTime, 0);
       } else if (this.speed < 0) {
-        this.speed = Math.min(this.speed + this.deceleration * 0.5 * deltaTime, 0);
+        this.speed = Math.min(this.speed + this.spec.deceleration * 0.5 * deltaTime, 0);
       }
     }
 
+    // Handbrake (simulation model) locks the rear wheels and scrubs speed
+    this.handbraking = this.physicsModel === 'simulation' && inputHandbrake && Math.abs(this.speed) > 0.1;
+    if (this.handbraking) {
+      const scrubbed = Math.max(Math.abs(this.speed) - this.spec.deceleration * this.HANDBRAKE_DRAG * deltaTime, 0);
+      this.speed = Math.sign(this.speed) * scrubbed;
+    }
+
+    // Braking loads the front tires for more bite; throttle unloads them
+    this.loadTransfer = this.physicsModel === 'simulation'
+      ? MathUtils.clamp(-(this.speed - previousSpeed) / deltaTime / this.spec.acceleration, -1, 1) * this.spec.weightTransfer
+      : 0;
+
     // Steering (only effective when moving)
     if (Math.abs(this.speed) > 0.1 && Math.abs(finalSteering) > 0.1) {
-      const steeringEffect = finalSteering * this.turnSpeed * deltaTime;
-      const speedFactor = Math.abs(this.speed) / this.maxSpeed;
-      this.rotation += steeringEffect * speedFactor;
+      const steeringEffect = finalSteering * this.spec.turnSpeed * deltaTime;
+      // Arcade steering loses bite on a slippery road; the simulation model slides instead
+      const speedFactor = this.physicsModel === 'simulation'
+        ? this.getSimulationSteeringFactor()
+        : Math.min(Math.abs(this.speed) / this.spec.maxSpeed, 1) * this.surfaceGrip;
+      // Positive yaw turns toward -X, so steering right decreases rotation
+      this.rotation -= steeringEffect * speedFactor;
     }
   }
 
+  /**
+   * Steering scale for the simulation model: builds up from a standstill,
+   * tightens toward top speed and shifts with load and handbrake
+   */
+  private getSimulationSteeringFactor(): number {
+    const absSpeed = Math.abs(this.speed);
+    const lowSpeedFactor = Math.min(absSpeed / this.FULL_STEER_SPEED, 1);
+    const highSpeedFactor = MathUtils.lerp(1, this.spec.highSpeedSteering, Math.min(absSpeed / this.spec.maxSpeed, 1));
+    const handbrakeFactor = this.handbraking ? this.HANDBRAKE_YAW_BOOST : 1;
+    
+    return lowSpeedFactor * highSpeedFactor * (1 + this.loadTransfer) * handbrakeFactor;
+  }
+
+  /**
+   * Simulation model tire forces: momentum keeps the old travel direction
+   * while the body yaws, and lateral grip pulls it back under the heading
+   */
+  private updateTireForces(deltaTime: number): void {
+    // Re-express last step's velocity in the new heading's frame
+    const yawDelta = this.rotation - this.previousRotation;
+    const cos = Math.cos(yawDelta);
+    const sin = Math.sin(yawDelta);
+    const forward = this.speed * cos - this.lateralSpeed * sin;
+    const lateral = this.speed * sin + this.lateralSpeed * cos;
+    
+    // The handbrake lets the rear slide out
+    const grip = this.spec.grip * this.surfaceGrip * (this.handbraking ? this.spec.handbrakeGrip : 1);
+    this.speed = forward;
+    this.lateralSpeed = lateral * Math.exp(-grip * deltaTime);
+    this.slipAngle = Math.atan2(this.lateralSpeed, Math.abs(this.speed));
+  }
+
   /**
    * Update car physics
    */
@@ -110,14 +214,20 @@ export class CarController {
     const direction = new THREE.Vector3(0, 0, -1);
     direction.applyAxisAngle(new THREE.Vector3(0, 1, 0), this.rotation);
     
-    // Update velocity
+    // Update velocity: arcade travels exactly along the heading
     this.velocity.copy(direction).multiplyScalar(this.speed);
+    if (this.physicsModel === 'simulation') {
+      this.updateTireForces(deltaTime);
+      const right = new THREE.Vector3(-direction.z, 0, direction.x);
+      this.velocity.copy(direction).multiplyScalar(this.speed).addScaledVector(right, this.lateralSpeed);
+    }
     
     // Update position
     this.position.add(this.velocity.clone().multiplyScalar(deltaTime));
+    this.distanceTraveled += Math.hypot(this.speed, this.lateralSpeed) * deltaTime;
     
     // Keep car on road (simple boundary check)
-    this.position.x = MathUtils.clamp(this.position.x, -8, 8);
+    this.position.x = MathUtils.clamp(this.position.x, -DRIVABLE_HALF_WIDTH, DRIVABLE_HALF_WIDTH);
     this.position.y = 0.5; // Keep at road level
     
     // Update car mesh position and rotation
@@ -127,6 +237,9 @@ export class CarController {
     // Add slight banking when turning
     const bankingAngle = MathUtils.clamp(this.velocity.x * -0.1, -0.3, 0.3);
     this.car.rotation.z = MathUtils.lerp(this.car.rotation.z, bankingAngle, 0.1);
+    
+    // Nose dips under braking and lifts under throttle
+    this.car.rotation.x = MathUtils.lerp(this.car.rotation.x, -this.loadTransfer * 0.05, 0.1);
   }
 
   /**
@@ -149,15 +262,25 @@ export class CarController {
       
       // Front wheel steering
       const steeringAngle = 
-        (this.keys['ArrowLeft'] || this.keys['KeyA'] ? -0.3 : 0) +
-        (this.keys['ArrowRight'] || this.keys['KeyD'] ? 0.3 : 0);
+        (this.keys['ArrowLeft'] || this.keys['KeyA'] ? 0.3 : 0) +
+        (this.keys['ArrowRight'] || this.keys['KeyD'] ? -0.3 : 0);
       
       wheels.frontLeft.rotation.y = steeringAngle;
       wheels.frontRight.rotation.y = steeringAngle;
     }
     
     // Update engine sound intensity
-    this.engineSound = Math.abs(this.speed) / this.maxSpeed;
+    this.engineSound = Math.abs(this.speed) / this.spec.maxSpeed;
+  }
+
+  /**
+   * Place the car mesh between the last two simulation steps (alpha 0-1)
+   */
+  interpolate(alpha: number): void {
+    if (!this.car) return;
+
+    this.car.position.lerpVectors(this.previousPosition, this.position, alpha);
+    this.car.rotation.y = MathUtils.lerp(this.previousRotation, this.rotation, alpha);
   }
 
   /**
@@ -181,14 +304,42 @@ export class CarController {
    * Handle keyboard down events
    */
   handleKeyDown(event: KeyboardEvent): void {
-    this.keys[event.code] = true;
+    this.setKeyState(event.code, true);
   }
 
   /**
    * Handle keyboard up events
    */
   handleKeyUp(event: KeyboardEvent): void {
-    this.keys[event.code] = false;
+    this.setKeyState(event.code, false);
+  }
+
+  /**
+   * Set a key state directly (synthetic input for headless simulation)
+   */
+  setKeyState(code: string, pressed: boolean): void {
+    this.keys[code] = pressed;
+  }
+
+  /**
+   * Release all keys
+   */
+  clearKeys(): void {
+    this.keys = {};
+  }
+
+  /**
+   * Check whether a key is currently held
+   */
+  getKeyState(code: string): boolean {
+    return this.keys[code] || false;
+  }
+
+  /**
+   * Get codes of all currently held keys
+   */
+  getPressedKeys(): string[] {
+    return Object.keys(this.keys).filter(code => this.keys[code]);
   }
 
   /**
@@ -197,6 +348,7 @@ export class CarController {
   handleCollision(): void {
     // Reduce speed significantly
     this.speed *= 0.3;
+    this.lateralSpeed *= 0.3;
     
     // Add slight backwards push
     const pushBack = new THREE.Vector3(0, 0, 1);
@@ -204,7 +356,7 @@ export class CarController {
     this.position.add(pushBack.multiplyScalar(2));
     
     // Keep car on road
-    this.position.x = MathUtils.clamp(this.position.x, -8, 8);
+    this.position.x = MathUtils.clamp(this.position.x, -DRIVABLE_HALF_WIDTH, DRIVABLE_HALF_WIDTH);
     
     // Update car position
     if (this.car) {
@@ -212,14 +364,34 @@ export class CarController {
     }
   }
 
+  /**
+   * Slide the car sideways across the road, e.g. pushed wide in a corner
+   */
+  applyLateralDrift(offset: number): void {
+    this.position.x = MathUtils.clamp(this.position.x + offset, -DRIVABLE_HALF_WIDTH, DRIVABLE_HALF_WIDTH);
+
+    if (this.car) {
+      this.car.position.x = this.position.x;
+    }
+  }
+
   /**
    * Reset car to initial state
    */
   reset(): void {
     this.position.set(0, 0.5, 0);
+    this.previousPosition.copy(this.position);
     this.velocity.set(0, 0, 0);
     this.rotation = 0;
+    this.previousRotation = 0;
     this.speed = 0;
+    this.lateralSpeed = 0;
+    this.slipAngle = 0;
+    this.loadTransfer = 0;
+    this.handbraking = false;
+    this.nitro = 1;
+    this.boosting = false;
+    this.distanceTraveled = 0;
     this.wheelRotation = 0;
     this.engineSound = 0;
     
@@ -241,6 +413,55 @@ export class CarController {
     this.settings = settings;
   }
 
+  /**
+   * Update steering sensitivity only
+   */
+  setSensitivity(sensitivity: number): void {
+    this.settings = { ...this.settings, sensitivity };
+  }
+
+  /**
+   * Replace the handling parameters
+   */
+  setVehicleSpec(spec: VehicleSpec): void {
+    this.spec = { ...spec };
+  }
+
+  /**
+   * Get the handling parameters
+   */
+  getVehicleSpec(): VehicleSpec {
+    return { ...this.spec };
+  }
+
+  /**
+   * Set the road's grip (0-1 of dry grip), e.g. for weather
+   */
+  setSurfaceGrip(grip: number): void {
+    this.surfaceGrip = MathUtils.clamp(grip, 0, 1);
+  }
+
+  getSurfaceGrip(): number {
+    return this.surfaceGrip;
+  }
+
+  /**
+   * Switch between the arcade and simulation handling models
+   */
+  setPhysicsModel(model: PhysicsModel): void {
+    this.physicsModel = model;
+    this.lateralSpeed = 0;
+    this.slipAngle = 0;
+    this.loadTransfer = 0;
+  }
+
+  /**
+   * Get the active handling model
+   */
+  getPhysicsModel(): PhysicsModel {
+    return this.physicsModel;
+  }
+
   /**
    * Get current position
    */
@@ -248,6 +469,13 @@ export class CarController {
     return this.position.clone();
   }
 
+  /**
+   * Get total distance driven since reset
+   */
+  getDistanceTraveled(): number {
+    return this.distanceTraveled;
+  }
+
   /**
    * Get current speed
    */
@@ -287,7 +515,7 @@ export class CarController {
    * Get normalized speed (0-1)
    */
   getNormalizedSpeed(): number {
-    return Math.abs(this.speed) / this.maxSpeed;
+    return Math.abs(this.speed) / this.spec.maxSpeed;
   }
 
   /**
@@ -311,6 +539,48 @@ export class CarController {
     return this.keys['ArrowDown'] || this.keys['KeyS'] || false;
   }
 
+  /**
+   * Check if nitro is firing this step
+   */
+  isBoosting(): boolean {
+    return this.boosting;
+  }
+
+  /**
+   * Get nitro meter (0-1)
+   */
+  getNitro(): number {
+    return this.nitro;
+  }
+
+  /**
+   * Refill the nitro meter (clamped to full)
+   */
+  addNitro(amount: number): void {
+    this.nitro = MathUtils.clamp(this.nitro + amount, 0, 1);
+  }
+
+  /**
+   * Get slip angle in radians (always 0 in arcade mode)
+   */
+  getSlipAngle(): number {
+    return this.slipAngle;
+  }
+
+  /**
+   * Check if the car is sliding sideways fast enough to count as a drift
+   */
+  isDrifting(): boolean {
+    return Math.abs(this.slipAngle) > this.DRIFT_SLIP_ANGLE && Math.abs(this.speed) > this.DRIFT_MIN_SPEED;
+  }
+
+  /**
+   * Check if the handbrake is pulled (simulation model only)
+   */
+  isHandbraking(): boolean {
+    return this.handbraking;
+  }
+
   /**
    * Check if car is turning
    */
@@ -327,4 +597,14 @@ export class CarController {
     const right = this.keys['ArrowRight'] || this.keys['KeyD'] ? 1 : 0;
     return left + right;
   }
+
+  /**
+   * Dispose of car controller
+   */
+  dispose(): void {
+    this.car = null;
+    this.keys = {};
+    
+    console.log('Car controller disposed');
+  }
 }
\ No newline at end of file
@@ -0,0 +1,126 @@
+// Selectable car roster for the 3D car racing game
+import { VehicleSpec, DEFAULT_VEHICLE_SPEC } from './VehicleSpec';
+import { CarBodyStyle, DEFAULT_CAR_BODY } from '../utils/three-utils';
+
+export type CarId = 'balanced' | 'heavy' | 'agile' | 'speedster';
+
+export interface CarDefinition {
+  id: CarId;
+  name: string;
+  description: string;
+  spec: VehicleSpec;
+  body: CarBodyStyle;
+}
+
+export const DEFAULT_CAR_ID: CarId = 'balanced';
+
+export const CAR_ROSTER: CarDefinition[] = [
+  {
+    id: 'balanced',
+    name: 'Comet',
+    description: 'An all-rounder with no real weaknesses',
+    spec: DEFAULT_VEHICLE_SPEC,
+    body: DEFAULT_CAR_BODY
+  },
+  {
+    id: 'heavy',
+    name: 'Bulwark',
+    description: 'Wide and planted; slow to get going but hard to unsettle',
+    spec: {
+      maxSpeed: 23,
+      acceleration: 11,
+      deceleration: 13,
+      turnSpeed: 2.0,
+      grip: 32,
+      handbrakeGrip: 0.25,
+      highSpeedSteering: 0.7,
+      weightTransfer: 0.2
+    },
+    body: {
+      width: 2.3,
+      length: 4.6,
+      height: 0.8,
+      roofHeight: 0.5,
+      color: 0x546e7a,
+      roofColor: 0x37474f
+    }
+  },
+  {
+    id: 'agile',
+    name: 'Sprite',
+    description: 'Small and twitchy; darts through gaps others cannot',
+    spec: {
+      maxSpeed: 23,
+      acceleration: 20,
+      deceleration: 12,
+      turnSpeed: 3.2,
+      grip: 28,
+      handbrakeGrip: 0.12,
+      highSpeedSteering: 0.7,
+      weightTransfer: 0.35
+    },
+    body: {
+      width: 1.7,
+      length: 3.4,
+      height: 0.5,
+      roofHeight: 0.4,
+      color: 0x43a047,
+      roofColor: 0x2e7d32
+    }
+  },
+  {
+    id: 'speedster',
+    name: 'Arrow',
+    description: 'Highest top speed, but it needs room to turn',
+    spec: {
+      maxSpeed: 30,
+      acceleration: 14,
+      deceleration: 9,
+      turnSpeed: 2.1,
+      grip: 20,
+      handbrakeGrip: 0.15,
+      highSpeedSteering: 0.5,
+      weightTransfer: 0.3
+    },
+    body: {
+      width: 1.9,
+      length: 4.4,
+      height: 0.45,
+      roofHeight: 0.3,
+      color: 0xe53935,
+      roofColor: 0xb71c1c
+    }
+  }
+];
+
+/**
+ * Look up a car by id, falling back to the default car for unknown ids
+ */
+export function getCarDefinition(id: string): CarDefinition {
+  return CAR_ROSTER.find(car => car.id === id) ?? CAR_ROSTER[0];
+}
+
+const STORAGE_KEY = 'car-racing-selected-car';
+
+export class CarSelectionStorage {
+  /**
+   * Load the car picked in the garage
+   */
+  static load(): CarId {
+    if (typeof window === 'undefined') return DEFAULT_CAR_ID;
+    return getCarDefinition(localStorage.getItem(STORAGE_KEY) ?? DEFAULT_CAR_ID).id;
+  }
+
+  /**
+   * Remember the car picked in the garage
+   */
+  static save(id: CarId): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(STORAGE_KEY, id);
+    } catch (error) {
+      console.warn('Failed to store car selection', error);
+    }
+  }
+}
\ No newline at end of file
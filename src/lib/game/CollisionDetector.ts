@@ -7,6 +7,13 @@ export interface CollisionResult {
   obstacle?: ObstacleData;
   impactPoint?: THREE.Vector3;
   impactNormal?: THREE.Vector3;
+  penetration?: number;
+}
+
+export interface NearMissResult {
+  obstacle: ObstacleData;
+  clearance: number; // Closest horizontal gap in world units
+  closeness: number; // 0 at the edge of the margin, 1 for a scrape
 }
 
 export class CollisionDetector {
@@ -14,6 +21,11 @@ export class CollisionDetector {
   private tempVector: THREE.Vector3;
   private tempBox: THREE.Box3;
 
+  // Near-miss tracking: closest clearance seen per obstacle still within the margin
+  private nearMissMargin: number = 1.0;
+  private nearMissCandidates: Map<ObstacleData, number> = new Map();
+  private readonly NEAR_MISS_SEARCH_RADIUS = 12;
+
   constructor() {
     this.raycaster = new THREE.Raycaster();
     this.tempVector = new THREE.Vector3();
@@ -91,6 +103,33 @@ export class CollisionDetector {
     return { hasCollision: false };
   }
 
+  /**
+   * Describe a box-box contact: the normal is the horizontal axis of least
+   * overlap, pointing from the obstacle toward the car
+   */
+  analyzeImpact(carBoundingBox: THREE.Box3, obstacle: ObstacleData): CollisionResult {
+    const penetrationBox = this.tempBox.copy(carBoundingBox).intersect(obstacle.boundingBox);
+    if (penetrationBox.isEmpty()) {
+      return { hasCollision: false };
+    }
+    
+    const overlap = penetrationBox.getSize(this.tempVector);
+    const carCenter = carBoundingBox.getCenter(new THREE.Vector3());
+    const obstacleCenter = obstacle.boundingBox.getCenter(new THREE.Vector3());
+    
+    const impactNormal = overlap.x < overlap.z
+      ? new THREE.Vector3(Math.sign(carCenter.x - obstacleCenter.x) || 1, 0, 0)
+      : new THREE.Vector3(0, 0, Math.sign(carCenter.z - obstacleCenter.z) || 1);
+    
+    return {
+      hasCollision: true,
+      obstacle,
+      impactPoint: penetrationBox.getCenter(new THREE.Vector3()),
+      impactNormal,
+      penetration: this.getCollisionPenetration(carBoundingBox, obstacle.boundingBox)
+    };
+  }
+
   /**
    * Check if car is within road boundaries
    */
@@ -156,6 +195,85 @@ export class CollisionDetector {
     return minDistance === Infinity ? -1 : minDistance;
   }
 
+  /**
+   * Track close shaves; returns obstacles the car passed within the margin
+   * without touching since the last call
+   */
+  updateNearMisses(
+    carBoundingBox: THREE.Box3,
+    carPosition: THREE.Vector3,
+    obstacles: ObstacleData[]
+  ): NearMissResult[] {
+    const inMargin = new Set<ObstacleData>();
+    
+    // Broad phase: nothing can be close when the nearest obstacle centre is far away
+    const nearest = this.getNearestObstacleDistance(carPosition, obstacles);
+    if (nearest >= 0 && nearest <= this.NEAR_MISS_SEARCH_RADIUS) {
+      for (const obstacle of obstacles) {
+        if (!obstacle.isActive) continue;
+        
+        // Tolerance expands both boxes, so half the margin each
+        if (!this.checkBoxCollision(carBoundingBox, obstacle.boundingBox, this.nearMissMargin / 2)) {
+          continue;
+        }
+        
+        const clearance = this.getHorizontalClearance(carBoundingBox, obstacle.boundingBox);
+        const previous = this.nearMissCandidates.get(obstacle) ?? Infinity;
+        this.nearMissCandidates.set(obstacle, Math.min(previous, clearance));
+        inMargin.add(obstacle);
+      }
+    }
+    
+    // Obstacles that dropped out of the margin were passed cleanly
+    const results: NearMissResult[] = [];
+    this.nearMissCandidates.forEach((clearance, obstacle) => {
+      if (inMargin.has(obstacle)) return;
+      
+      this.nearMissCandidates.delete(obstacle);
+      if (!obstacle.isActive || clearance <= 0) return; // Touching counts as a hit, not a miss
+      
+      results.push({
+        obstacle,
+        clearance,
+        closeness: 1 - Math.min(clearance / this.nearMissMargin, 1)
+      });
+    });
+    
+    return results;
+  }
+
+  /**
+   * Forget a near-miss candidate (e.g. the car hit it)
+   */
+  cancelNearMiss(obstacle: ObstacleData): void {
+    this.nearMissCandidates.delete(obstacle);
+  }
+
+  /**
+   * Set how close (world units) the car must pass to count as a near miss
+   */
+  setNearMissMargin(margin: number): void {
+    this.nearMissMargin = Math.max(margin, 0.01);
+  }
+
+  /**
+   * Get near-miss margin
+   */
+  getNearMissMargin(): number {
+    return this.nearMissMargin;
+  }
+
+  /**
+   * Get the gap between two boxes on the ground plane (0 when they overlap)
+   */
+  getHorizontalClearance(box1: THREE.Box3, box2: THREE.Box3): number {
+    if (this.getCollisionPenetration(box1, box2) > 0) return 0;
+    
+    const dx = Math.max(box2.min.x - box1.max.x, box1.min.x - box2.max.x, 0);
+    const dz = Math.max(box2.min.z - box1.max.z, box1.min.z - box2.max.z, 0);
+    return Math.hypot(dx, dz);
+  }
+
   /**
    * Get obstacles within specified radius of car
    */
@@ -276,7 +394,7 @@ export class CollisionDetector {
    * Reset collision detector
    */
   reset(): void {
-    // Reset any internal state if needed
+    this.nearMissCandidates.clear();
     console.log('Collision detector reset');
   }
 
@@ -285,6 +403,7 @@ export class CollisionDetector {
    */
   dispose(): void {
     // Clean up resources
+    this.nearMissCandidates.clear();
     console.log('Collision detector disposed');
   }
 }
\ No newline at end of file
@@ -0,0 +1,129 @@
+// Vehicle damage system for the 3D car racing game
+import * as THREE from 'three';
+import { MathUtils } from '../utils/math-utils';
+import type { ObstacleData } from './ObstacleManager';
+
+export interface DamageSettings {
+  maxHealth: number;
+  lives: number; // Health refills after a wreck until lives run out (1 = single health bar)
+}
+
+export interface ImpactData {
+  obstacleType: ObstacleData['type'];
+  relativeVelocity: THREE.Vector3; // Car velocity minus obstacle velocity
+  impactNormal: THREE.Vector3; // Unit vector from the obstacle toward the car
+  penetration: number; // Overlap depth in world units
+}
+
+export interface DamageResult {
+  damage: number;
+  health: number;
+  wrecked: boolean; // Health ran out on this impact
+}
+
+export const DEFAULT_DAMAGE_SETTINGS: DamageSettings = {
+  maxHealth: 100,
+  lives: 3
+};
+
+export class DamageModel {
+  // Damage of a head-on hit at the car's top speed
+  private static readonly TYPE_DAMAGE: Record<ObstacleData['type'], number> = {
+    cone: 12,
+    barrier: 30,
+    wall: 45
+  };
+  private static readonly SCRAPE_FACTOR = 0.25; // Share of sliding speed that counts
+  private static readonly MIN_DAMAGE = 5;
+
+  private maxHealth: number;
+  private health: number;
+
+  constructor(maxHealth: number = DEFAULT_DAMAGE_SETTINGS.maxHealth) {
+    this.maxHealth = maxHealth;
+    this.health = maxHealth;
+  }
+
+  /**
+   * Damage dealt by an impact: scales with closing speed along the impact
+   * normal relative to the car's top speed, a little with sliding speed,
+   * and with penetration depth
+   */
+  static calculateDamage(impact: ImpactData, topSpeed: number): number {
+    const speed = impact.relativeVelocity.length();
+    const closingSpeed = Math.max(-impact.relativeVelocity.dot(impact.impactNormal), 0);
+    const slidingSpeed = Math.sqrt(Math.max(speed * speed - closingSpeed * closingSpeed, 0));
+
+    const severity = MathUtils.clamp(
+      (closingSpeed + slidingSpeed * DamageModel.SCRAPE_FACTOR) / topSpeed,
+      0.2,
+      1.5
+    );
+    const depthFactor = 1 + Math.min(impact.penetration, 0.5);
+
+    const damage = DamageModel.TYPE_DAMAGE[impact.obstacleType] * severity * depthFactor;
+    return Math.max(Math.round(damage), DamageModel.MIN_DAMAGE);
+  }
+
+  /**
+   * Apply damage and report whether the car was wrecked
+   */
+  applyDamage(amount: number): DamageResult {
+    const wasIntact = this.health > 0;
+    this.health = Math.max(0, this.health - amount);
+
+    return {
+      damage: amount,
+      health: this.health,
+      wrecked: wasIntact && this.health === 0
+    };
+  }
+
+  /**
+   * Repair some damage (clamped to max health)
+   */
+  repair(amount: number): void {
+    this.health = Math.min(this.maxHealth, this.health + amount);
+  }
+
+  /**
+   * Restore full health (e.g. after spending a life)
+   */
+  restore(): void {
+    this.health = this.maxHealth;
+  }
+
+  /**
+   * Change max health; current health is restored
+   */
+  setMaxHealth(maxHealth: number): void {
+    this.maxHealth = Math.max(1, maxHealth);
+    this.health = this.maxHealth;
+  }
+
+  getHealth(): number {
+    return this.health;
+  }
+
+  getMaxHealth(): number {
+    return this.maxHealth;
+  }
+
+  /**
+   * Get health as a 0-100 percentage
+   */
+  getHealthPercent(): number {
+    return (this.health / this.maxHealth) * 100;
+  }
+
+  isWrecked(): boolean {
+    return this.health <= 0;
+  }
+
+  /**
+   * Reset damage model for a new run
+   */
+  reset(): void {
+    this.health = this.maxHealth;
+  }
+}
\ No newline at end of file
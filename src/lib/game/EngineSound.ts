@@ -0,0 +1,220 @@
+// Synthesized engine voice for the 3D car racing game
+import { MathUtils } from '../utils/math-utils';
+
+export interface EngineSoundInput {
+  intensity: number; // Normalized speed from CarController.getEngineSound() (0-1)
+  isAccelerating: boolean;
+  isBraking: boolean;
+}
+
+export class EngineSound {
+  private context: AudioContext;
+  private output: GainNode;
+
+  // Oscillator layers: firing frequency, sub octave and a detuned upper harmonic
+  private mainOscillator: OscillatorNode | null = null;
+  private subOscillator: OscillatorNode | null = null;
+  private harmonicOscillator: OscillatorNode | null = null;
+  private harmonicGain: GainNode | null = null;
+
+  private shaper: WaveShaperNode | null = null;
+  private filter: BiquadFilterNode | null = null;
+  private voiceGain: GainNode | null = null;
+
+  // Engine model parameters
+  private readonly IDLE_RPM = 850;
+  private readonly REDLINE_RPM = 7000;
+  private readonly GEAR_COUNT = 5;
+  private readonly CYLINDERS = 4;
+  private readonly SMOOTHING = 0.05; // seconds
+
+  private rpm: number = this.IDLE_RPM;
+  private running: boolean = false;
+
+  constructor(context: AudioContext, output: GainNode) {
+    this.context = context;
+    this.output = output;
+  }
+
+  /**
+   * Build the oscillator graph and start the engine at idle
+   */
+  start(): void {
+    if (this.running) return;
+
+    const context = this.context;
+    const now = context.currentTime;
+    const frequency = this.getFiringFrequency(this.IDLE_RPM);
+
+    this.mainOscillator = context.createOscillator();
+    this.mainOscillator.type = 'sawtooth';
+    this.mainOscillator.frequency.setValueAtTime(frequency, now);
+
+    this.subOscillator = context.createOscillator();
+    this.subOscillator.type = 'square';
+    this.subOscillator.frequency.setValueAtTime(frequency * 0.5, now);
+
+    this.harmonicOscillator = context.createOscillator();
+    this.harmonicOscillator.type = 'sawtooth';
+    this.harmonicOscillator.frequency.setValueAtTime(frequency * 2, now);
+    this.harmonicOscillator.detune.setValueAtTime(12, now);
+
+    this.harmonicGain = context.createGain();
+    this.harmonicGain.gain.setValueAtTime(0.15, now);
+
+    // Soft clipping adds the gritty combustion character
+    this.shaper = context.createWaveShaper();
+    this.shaper.curve = EngineSound.createDistortionCurve(8);
+    this.shaper.oversample = '2x';
+
+    this.filter = context.createBiquadFilter();
+    this.filter.type = 'lowpass';
+    this.filter.Q.setValueAtTime(4, now);
+    this.filter.frequency.setValueAtTime(400, now);
+
+    this.voiceGain = context.createGain();
+    this.voiceGain.gain.setValueAtTime(0.0001, now);
+    this.voiceGain.gain.setTargetAtTime(0.25, now, 0.2);
+
+    this.mainOscillator.connect(this.shaper);
+    this.subOscillator.connect(this.shaper);
+    this.harmonicOscillator.connect(this.harmonicGain);
+    this.harmonicGain.connect(this.shaper);
+    this.shaper.connect(this.filter);
+    this.filter.connect(this.voiceGain);
+    this.voiceGain.connect(this.output);
+
+    this.mainOscillator.start(now);
+    this.subOscillator.start(now);
+    this.harmonicOscillator.start(now);
+
+    this.rpm = this.IDLE_RPM;
+    this.running = true;
+  }
+
+  /**
+   * Update pitch and timbre from the car state
+   */
+  update(input: EngineSoundInput): void {
+    if (!this.running || !this.mainOscillator || !this.subOscillator ||
+        !this.harmonicOscillator || !this.harmonicGain || !this.filter || !this.voiceGain) {
+      return;
+    }
+
+    const intensity = MathUtils.clamp(input.intensity, 0, 1);
+    this.rpm = this.calculateRPM(intensity, input.isAccelerating);
+
+    const now = this.context.currentTime;
+    const frequency = this.getFiringFrequency(this.rpm);
+    const rpmFactor = (this.rpm - this.IDLE_RPM) / (this.REDLINE_RPM - this.IDLE_RPM);
+
+    this.mainOscillator.frequency.setTargetAtTime(frequency, now, this.SMOOTHING);
+    this.subOscillator.frequency.setTargetAtTime(frequency * 0.5, now, this.SMOOTHING);
+    this.harmonicOscillator.frequency.setTargetAtTime(frequency * 2, now, this.SMOOTHING);
+
+    // Throttle opens the filter and brings in the upper harmonic; braking closes it
+    let cutoff = 300 + rpmFactor * 1800;
+    let harmonicLevel = 0.1 + rpmFactor * 0.2;
+    let volume = 0.2 + rpmFactor * 0.3;
+
+    if (input.isAccelerating) {
+      cutoff *= 1.8;
+      harmonicLevel += 0.15;
+      volume += 0.15;
+    } else if (input.isBraking) {
+      cutoff *= 0.6;
+      harmonicLevel *= 0.5;
+      volume *= 0.7;
+    }
+
+    this.filter.frequency.setTargetAtTime(cutoff, now, this.SMOOTHING);
+    this.harmonicGain.gain.setTargetAtTime(harmonicLevel, now, this.SMOOTHING);
+    this.voiceGain.gain.setTargetAtTime(MathUtils.clamp(volume, 0, 1), now, this.SMOOTHING);
+  }
+
+  /**
+   * Map normalized speed to engine RPM through a simple gearbox
+   */
+  private calculateRPM(intensity: number, isAccelerating: boolean): number {
+    const gearPosition = intensity * this.GEAR_COUNT;
+    const gear = Math.min(Math.floor(gearPosition), this.GEAR_COUNT - 1);
+    const gearProgress = gearPosition - gear;
+
+    // Each upshift drops revs back to a higher floor in the band
+    const shiftFloor = gear === 0 ? 0 : 0.45;
+    const bandPosition = MathUtils.lerp(shiftFloor, 1, gearProgress);
+    let rpm = MathUtils.lerp(this.IDLE_RPM, this.REDLINE_RPM, bandPosition);
+
+    // Engine load raises revs slightly under throttle
+    if (isAccelerating) {
+      rpm += 400;
+    }
+
+    return MathUtils.clamp(rpm, this.IDLE_RPM, this.REDLINE_RPM);
+  }
+
+  /**
+   * Firing frequency in Hz for a four-stroke engine
+   */
+  private getFiringFrequency(rpm: number): number {
+    return (rpm / 60) * (this.CYLINDERS / 2);
+  }
+
+  /**
+   * Create a soft clipping curve for the wave shaper
+   */
+  private static createDistortionCurve(amount: number): Float32Array<ArrayBuffer> {
+    const samples = 256;
+    const curve = new Float32Array(samples);
+    for (let i = 0; i < samples; i++) {
+      const x = (i * 2) / samples - 1;
+      curve[i] = ((1 + amount) * x) / (1 + amount * Math.abs(x));
+    }
+    return curve;
+  }
+
+  /**
+   * Fade out and tear down the oscillator graph
+   */
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+
+    const now = this.context.currentTime;
+    const stopTime = now + 0.3;
+    if (this.voiceGain) {
+      this.voiceGain.gain.setTargetAtTime(0.0001, now, 0.05);
+    }
+
+    [this.mainOscillator, this.subOscillator, this.harmonicOscillator].forEach(oscillator => {
+      oscillator?.stop(stopTime);
+    });
+
+    const voiceGain = this.voiceGain;
+    if (this.mainOscillator) {
+      this.mainOscillator.onended = () => voiceGain?.disconnect();
+    }
+
+    this.mainOscillator = null;
+    this.subOscillator = null;
+    this.harmonicOscillator = null;
+    this.harmonicGain = null;
+    this.shaper = null;
+    this.filter = null;
+    this.voiceGain = null;
+  }
+
+  /**
+   * Get current simulated RPM
+   */
+  getRPM(): number {
+    return this.rpm;
+  }
+
+  /**
+   * Check if engine voice is running
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+}
\ No newline at end of file
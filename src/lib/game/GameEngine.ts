@@ -1,9 +1,24 @@
 import * as THREE from 'three';
-import { CarController } from './CarController';
-import { ObstacleManager } from './ObstacleManager';
-import { CollisionDetector } from './CollisionDetector';
-import { ScoreManager } from './ScoreManager';
+import { Simulation, GameStats } from './Simulation';
 import { AudioManager } from './AudioManager';
+import { ReplaySystem, ReplayData } from './ReplaySystem';
+import { GhostCar, GhostStorage, GhostTrack } from './GhostCar';
+import { PhysicsModel, DEFAULT_PHYSICS_MODEL } from './VehicleSpec';
+import { CarId, CarSelectionStorage } from './CarRoster';
+import { Livery, LiveryStorage } from './Livery';
+import { RoadRenderer } from './RoadRenderer';
+import { BIOMES, BiomeDefinition, BiomeId, DEFAULT_BIOME_ID, getBiomeForLevel } from './Biome';
+import { TimeOfDay, TimeOfDaySettings, DEFAULT_TIME_OF_DAY } from './TimeOfDay';
+import { WeatherDefinition, WeatherMode, DEFAULT_WEATHER_MODE } from './Weather';
+import { WeatherRenderer } from './WeatherRenderer';
+import { SceneryImpostors } from './SceneryImpostors';
+import { PostProcessor, PostEffectSettings, DEFAULT_POST_EFFECTS } from './PostProcessing';
+import { GraphicsQuality, GraphicsPreset, GRAPHICS_PRESETS, DEFAULT_GRAPHICS_QUALITY } from './GraphicsQuality';
+import { QualityGovernor, QualityReport, FrameRateTarget, DEFAULT_FRAME_RATE_TARGET } from './QualityGovernor';
+import { MathUtils } from '../utils/math-utils';
+import { ThreeUtils, ScaledLOD } from '../utils/three-utils';
+
+export type { GameStats } from './Simulation';
 
 export enum GameState {
   MENU = 'menu',
@@ -15,60 +30,125 @@ export enum GameState {
 
 export interface GameSettings {
   graphics: {
+    quality: GraphicsQuality; // Preset for resolution, shadows, detail and effects
+    adaptiveQuality: boolean; // Scale resolution, shadows and scenery below the preset to hold targetFPS
+    targetFPS: FrameRateTarget;
     shadows: boolean;
     postProcessing: boolean;
+    postEffects: PostEffectSettings; // Individual effects when postProcessing is on
     particleEffects: boolean;
-    renderDistance: number;
+    renderDistance: number; // Capped by the quality preset
   };
   audio: {
     masterVolume: number;
     sfxVolume: number;
     musicVolume: number;
+    engineVolume: number;
   };
   controls: {
     sensitivity: number;
     invertY: boolean;
+    physicsModel: PhysicsModel; // 'arcade' or grip/drift 'simulation' handling
   };
-}
-
-export interface GameStats {
-  score: number;
-  distance: number;
-  speed: number;
-  lives: number;
-  combo: number;
-  obstaclesAvoided: number;
-  timeElapsed: number;
-  level: number;
+  livery: Livery | null; // Car paint; null = the selected car's factory paint
+  biome: BiomeId; // Where runs start; each level moves on to the next biome
+  timeOfDay: TimeOfDaySettings;
+  weather: WeatherMode; // A fixed weather for the whole run, or 'dynamic'
 }
 
 export class GameEngine {
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private renderer: THREE.WebGLRenderer;
+  private postProcessor: PostProcessor;
   private clock: THREE.Clock;
   
-  private carController: CarController;
-  private obstacleManager: ObstacleManager;
-  private collisionDetector: CollisionDetector;
-  private scoreManager: ScoreManager;
+  // Game logic lives in the renderer-free simulation; this class is its view
+  private simulation: Simulation;
   private audioManager: AudioManager;
+  private ghostCar: GhostCar;
+  private roadRenderer: RoadRenderer;
+  private weatherRenderer: WeatherRenderer;
+  private impostors: SceneryImpostors;
   
   private gameState: GameState = GameState.MENU;
   private settings: GameSettings;
-  private stats: GameStats;
   
   private animationId: number | null = null;
   private canvas: HTMLCanvasElement | null = null;
   
+  // Fixed-timestep simulation
+  private readonly FIXED_TIMESTEP = Simulation.FIXED_TIMESTEP;
+  private readonly MAX_FRAME_TIME = 0.25; // clamp for tab stalls and breakpoints
+  private readonly MAX_STEPS_PER_FRAME = 30; // catch-up limit before dropping time
+  private accumulator = 0;
+  
+  // Camera follow and shake
+  private readonly CAMERA_OFFSET = new THREE.Vector3(0, 8, 15);
+  private cameraTarget = new THREE.Vector3();
+  private cameraGoal = new THREE.Vector3();
+  private shakeTime = 0;
+  private shakeIntensity = 0.5;
+  private readonly BASE_FOV = 75;
+  private readonly BOOST_FOV = 90; // Widened while nitro fires for a sense of speed
+  
   // Lighting
   private ambientLight: THREE.AmbientLight;
   private directionalLight: THREE.DirectionalLight;
   private hemisphereLight: THREE.HemisphereLight;
+  private readonly SUN_DISTANCE = 120; // From the car, so shadows follow it
+  private readonly HEMISPHERE_INTENSITY = 0.4;
+  
+  // Graphics quality, applied live from the preset
+  private preset: GraphicsPreset = GRAPHICS_PRESETS[DEFAULT_GRAPHICS_QUALITY];
+  private renderDistance = 1000; // The render distance setting within the preset's cap
+  private governor = new QualityGovernor();
+  private readonly SKY_RADIUS = 800;
   
   // Environment
   private ground: THREE.Mesh;
   private skybox: THREE.Mesh;
+  private accentLights: THREE.PointLight[] = [];
+  private readonly ACCENT_LIGHT_OFFSETS = [new THREE.Vector3(-10, 5, -20), new THREE.Vector3(10, 5, -20)];
+  private readonly ACCENT_INTENSITY = 120;
+  private accentPosition = new THREE.Vector3();
+  
+  // Biome look, blended from the previous biome over BIOME_TRANSITION_TIME
+  private biome: BiomeDefinition = BIOMES[DEFAULT_BIOME_ID];
+  private previousBiome: BiomeDefinition = BIOMES[DEFAULT_BIOME_ID];
+  private biomeBlend = 1;
+  private readonly BIOME_TRANSITION_TIME = 3; // seconds
+  private skyTop = new THREE.Color();
+  private skyHorizon = new THREE.Color();
+  private blendColor = new THREE.Color();
+  private impostorLight = new THREE.Color();
+  
+  // Time of day, layered over the biome look
+  private timeOfDay = new TimeOfDay();
+  private daylight = TimeOfDay.createState();
+  private lookHour = -1; // Hour the look was last applied for
+  private readonly NIGHT_SKY_TOP = new THREE.Color(0x02040f);
+  private readonly NIGHT_SKY_HORIZON = new THREE.Color(0x0b1026);
+  private readonly TWILIGHT_GLOW = new THREE.Color(0xff8a4c);
+  private readonly MOONLIGHT = new THREE.Color(0x8fa8ff);
+  private readonly MOON_INTENSITY = 0.25;
+  private readonly NIGHT_AMBIENT = 0.35; // Share of the daytime ambient light left at night
+  
+  // Headlights and street lamps, lit as night falls
+  private headlights: THREE.SpotLight[] = [];
+  private headlightCar: THREE.Object3D | null = null;
+  private readonly HEADLIGHT_INTENSITY = 80;
+  private lampLights: THREE.PointLight[] = [];
+  private lampPositions: THREE.Vector3[] = [];
+  private readonly LAMP_LIGHT_COUNT = 4; // Lamps nearest the car that actually cast light
+  private readonly LAMP_INTENSITY = 40;
+  
+  // Weather look: overcast skies, shorter fog and darker wet asphalt
+  private lookWeather: WeatherDefinition | null = null; // Weather the look was last applied for
+  private weatherTint = new THREE.Color();
+  private readonly OVERCAST_SUN = 0.6; // Share of sunlight lost under full cloud
+  private readonly WET_ROAD_DARKENING = 0.35;
+  private viewportSize = new THREE.Vector2();
   
   // Performance tracking
   private frameCount = 0;
@@ -79,6 +159,14 @@ export class GameEngine {
   private onStateChange?: (state: GameState) => void;
   private onStatsUpdate?: (stats: GameStats) => void;
   private onGameOver?: (finalStats: GameStats) => void;
+  private onMilestone?: (milestone: string) => void;
+  
+  // Bound DOM listeners so they can be removed again
+  private readonly boundHandleResize = this.handleResize.bind(this);
+  private readonly boundHandleKeyDown = this.handleKeyDown.bind(this);
+  private readonly boundHandleKeyUp = this.handleKeyUp.bind(this);
+  private readonly boundHandleWindowBlur = this.handleWindowBlur.bind(this);
+  private readonly boundHandleWindowFocus = this.handleWindowFocus.bind(this);
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
@@ -87,72 +175,108 @@ export class GameEngine {
     // Initialize default settings
     this.settings = {
       graphics: {
+        quality: DEFAULT_GRAPHICS_QUALITY,
+        adaptiveQuality: true,
+        targetFPS: DEFAULT_FRAME_RATE_TARGET,
         shadows: true,
         postProcessing: true,
+        postEffects: { ...DEFAULT_POST_EFFECTS },
         particleEffects: true,
         renderDistance: 1000
       },
       audio: {
         masterVolume: 0.7,
         sfxVolume: 0.8,
-        musicVolume: 0.5
+        musicVolume: 0.5,
+        engineVolume: 0.7
       },
       controls: {
         sensitivity: 1.0,
-        invertY: false
-      }
-    };
-    
-    // Initialize stats
-    this.stats = {
-      score: 0,
-      distance: 0,
-      speed: 0,
-      lives: 3,
-      combo: 0,
-      obstaclesAvoided: 0,
-      timeElapsed: 0,
-      level: 1
+        invertY: false,
+        physicsModel: DEFAULT_PHYSICS_MODEL
+      },
+      livery: LiveryStorage.load(),
+      biome: DEFAULT_BIOME_ID,
+      timeOfDay: { ...DEFAULT_TIME_OF_DAY },
+      weather: DEFAULT_WEATHER_MODE
     };
     
-    this.initializeRenderer();
-    this.initializeScene();
+    this.renderer = this.createRenderer();
+    this.scene = this.createScene();
+    this.camera = this.createCamera();
     this.initializeLighting();
     this.initializeEnvironment();
+    this.postProcessor = this.createPostProcessor();
+    
+    this.simulation = new Simulation({
+      scene: this.scene,
+      carId: CarSelectionStorage.load(),
+      livery: this.settings.livery,
+      weather: this.settings.weather
+    });
+    this.ghostCar = new GhostCar(this.scene);
+    this.impostors = new SceneryImpostors(this.renderer);
+    this.roadRenderer = new RoadRenderer(this.scene, this.simulation.getRoadPath(), this.impostors);
+    this.weatherRenderer = new WeatherRenderer(this.scene);
+    this.governor.setChangeCallback(() => this.applyScalableDetail());
+    this.applyGraphicsQuality();
+    this.timeOfDay.reset(this.settings.timeOfDay);
+    this.setBiome(getBiomeForLevel(this.settings.biome, 1), true);
+    this.audioManager = new AudioManager();
     this.initializeGameSystems();
     this.setupEventListeners();
   }
 
-  private initializeRenderer(): void {
-    this.renderer = new THREE.WebGLRenderer({
+  /**
+   * Initialize simulation and audio; call once before startGame
+   */
+  public async initialize(): Promise<void> {
+    await this.simulation.initialize();
+    this.roadRenderer.reset(); // Initializing picks the course seed, and with it the road
+    await this.audioManager.initialize();
+  }
+
+  private createRenderer(): THREE.WebGLRenderer {
+    const renderer = new THREE.WebGLRenderer({
       canvas: this.canvas!,
       antialias: true,
       alpha: false,
       powerPreference: 'high-performance'
     });
     
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
-    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-    this.renderer.shadowMap.enabled = this.settings.graphics.shadows;
-    this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
-    this.renderer.outputColorSpace = THREE.SRGBColorSpace;
-    this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
-    this.renderer.toneMappingExposure = 1.2;
+    // Pixel ratio and shadows follow the quality preset once the scene exists
+    renderer.setSize(window.innerWidth, window.innerHeight);
+    renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+    renderer.outputColorSpace = THREE.SRGBColorSpace;
+    renderer.toneMapping = THREE.ACESFilmicToneMapping;
+    renderer.toneMappingExposure = 1.2;
+    return renderer;
   }
 
-  private initializeScene(): void {
-    this.scene = new THREE.Scene();
-    this.scene.fog = new THREE.Fog(0x87CEEB, 100, this.settings.graphics.renderDistance);
-    
-    this.camera = new THREE.PerspectiveCamera(
-      75,
+  private createScene(): THREE.Scene {
+    const scene = new THREE.Scene();
+    scene.fog = new THREE.Fog(0x87CEEB, 100, this.settings.graphics.renderDistance);
+    return scene;
+  }
+
+  private createCamera(): THREE.PerspectiveCamera {
+    const camera = new THREE.PerspectiveCamera(
+      this.BASE_FOV,
       window.innerWidth / window.innerHeight,
       0.1,
       this.settings.graphics.renderDistance
     );
     
-    this.camera.position.set(0, 8, 15);
-    this.camera.lookAt(0, 0, 0);
+    camera.position.set(0, 8, 15);
+    camera.lookAt(0, 0, 0);
+    return camera;
+  }
+
+  private createPostProcessor(): PostProcessor {
+    const postProcessor = new PostProcessor(this.renderer, this.scene, this.camera);
+    postProcessor.setEffects(this.settings.graphics.postEffects);
+    postProcessor.setEnabled(this.settings.graphics.postProcessing);
+    return postProcessor;
   }
 
   private initializeLighting(): void {
@@ -166,10 +290,7 @@ export class GameEngine {
     
     // Directional light (sun) with shadows
     this.directionalLight = new THREE.DirectionalLight(0xffffff, 1.0);
-    this.directionalLight.position.set(50, 100, 50);
-    this.directionalLight.castShadow = this.settings.graphics.shadows;
-    this.directionalLight.shadow.mapSize.width = 2048;
-    this.directionalLight.shadow.mapSize.height = 2048;
+    this.directionalLight.position.set(0, this.SUN_DISTANCE, 0);
     this.directionalLight.shadow.camera.near = 0.5;
     this.directionalLight.shadow.camera.far = 500;
     this.directionalLight.shadow.camera.left = -100;
@@ -177,10 +298,11 @@ export class GameEngine {
     this.directionalLight.shadow.camera.top = 100;
     this.directionalLight.shadow.camera.bottom = -100;
     this.scene.add(this.directionalLight);
+    this.scene.add(this.directionalLight.target); // Moved each frame with the car
   }
 
   private initializeEnvironment(): void {
-    // Create ground plane
+    // Create ground plane; it follows the camera, the road is streamed by RoadRenderer
     const groundGeometry = new THREE.PlaneGeometry(2000, 2000, 100, 100);
     const groundMaterial = new THREE.MeshLambertMaterial({
       color: 0x2d5a27,
@@ -190,64 +312,267 @@ export class GameEngine {
     
     this.ground = new THREE.Mesh(groundGeometry, groundMaterial);
     this.ground.rotation.x = -Math.PI / 2;
+    this.ground.position.y = RoadRenderer.GROUND_LEVEL;
     this.ground.receiveShadow = true;
     this.scene.add(this.ground);
     
-    // Create road
-    const roadGeometry = new THREE.PlaneGeometry(20, 2000);
-    const roadMaterial = new THREE.MeshLambertMaterial({
-      color: 0x333333
+    // Create skybox; painted with the biome's gradient and kept out of the fog
+    const skyGeometry = new THREE.SphereGeometry(this.SKY_RADIUS, 32, 32);
+    const skyMaterial = new THREE.MeshBasicMaterial({
+      vertexColors: true,
+      side: THREE.BackSide,
+      fog: false
     });
     
-    const road = new THREE.Mesh(roadGeometry, roadMaterial);
-    road.rotation.x = -Math.PI / 2;
-    road.position.y = 0.01;
-    road.receiveShadow = true;
-    this.scene.add(road);
+    this.skybox = new THREE.Mesh(skyGeometry, skyMaterial);
+    this.scene.add(this.skybox);
+    
+    // Neon accent lights (cyan left, magenta right) ride ahead of the car in biomes that use them
+    for (const color of [0x00ffff, 0xff00ff]) {
+      const light = new THREE.PointLight(color, 0, 40);
+      this.accentLights.push(light);
+      this.scene.add(light);
+    }
     
-    // Create road markings
-    const markingGeometry = new THREE.PlaneGeometry(1, 10);
-    const markingMaterial = new THREE.MeshBasicMaterial({
-      color: 0xffffff
+    // Warm pools of light under the nearest street lamps at night
+    for (let i = 0; i < this.LAMP_LIGHT_COUNT; i++) {
+      const light = new THREE.PointLight(0xffd9a0, 0, 25, 1);
+      this.lampLights.push(light);
+      this.lampPositions.push(new THREE.Vector3());
+      this.scene.add(light);
+    }
+  }
+  
+  /**
+   * Fit spot lights to the headlight meshes of a newly built car
+   */
+  private attachHeadlights(car: THREE.Object3D): void {
+    this.headlights = [];
+    car.traverse(child => {
+      if (child.name !== 'headlight') return;
+      
+      const beam = new THREE.SpotLight(0xfff4d6, 0, 90, 0.45, 0.5, 1);
+      beam.target.position.set(0, -0.6, -12); // Dipped, ahead of the car
+      beam.shadow.camera.near = 0.5; // Clear of the lamp's own housing
+      child.add(beam, beam.target);
+      this.headlights.push(beam);
     });
+    this.headlightCar = car;
+    this.applyShadows();
+  }
+  
+  /**
+   * Scale rendering to the graphics quality preset; safe to call mid-run
+   */
+  private applyGraphicsQuality(): void {
+    const graphics = this.settings.graphics;
+    this.preset = GRAPHICS_PRESETS[graphics.quality];
+    this.governor.setEnabled(graphics.adaptiveQuality);
+    this.governor.setTarget(graphics.targetFPS);
+    this.postProcessor.setQuality(graphics.quality);
     
-    for (let i = -100; i < 100; i += 5) {
-      const marking = new THREE.Mesh(markingGeometry, markingMaterial);
-      marking.rotation.x = -Math.PI / 2;
-      marking.position.set(0, 0.02, i * 10);
-      this.scene.add(marking);
+    this.renderDistance = Math.min(graphics.renderDistance, this.preset.renderDistance);
+    this.camera.far = this.renderDistance;
+    this.camera.updateProjectionMatrix();
+    this.roadRenderer.setViewDistance(this.renderDistance);
+    this.roadRenderer.setSliceSpacing(this.preset.roadSliceSpacing);
+    this.weatherRenderer.setDensity(this.preset.particleDensity);
+    ScaledLOD.distanceScale = this.preset.lodScale; // Every car, obstacle and prop picks it up on its next draw
+    
+    // A new dome starts unpainted until the environment look is next applied
+    const sky = this.skybox.geometry as THREE.SphereGeometry;
+    if (sky.parameters.widthSegments !== this.preset.skySegments) {
+      sky.dispose();
+      this.skybox.geometry = new THREE.SphereGeometry(this.SKY_RADIUS, this.preset.skySegments, this.preset.skySegments);
     }
     
-    // Create skybox
-    const skyGeometry = new THREE.SphereGeometry(800, 32, 32);
-    const skyMaterial = new THREE.MeshBasicMaterial({
-      color: 0x87CEEB,
-      side: THREE.BackSide
+    this.applyScalableDetail();
+  }
+  
+  /**
+   * Apply the preset's resolution, shadow maps and scenery density, scaled
+   * down by the quality governor's current step
+   */
+  private applyScalableDetail(): void {
+    const quality = this.governor.getQuality();
+    
+    // Render targets and point sizes follow the pixel ratio
+    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, this.preset.pixelRatio) * quality.resolution);
+    this.handleResize();
+    this.roadRenderer.setSceneryDensity(this.preset.sceneryDensity * quality.scenery);
+    this.applyShadows();
+  }
+  
+  /**
+   * Give the first lights in line (the sun, then the headlights) shadows, as many as the preset allows
+   */
+  private applyShadows(): void {
+    const count = this.settings.graphics.shadows ? this.preset.shadowLights : 0;
+    const casters: (THREE.DirectionalLight | THREE.SpotLight)[] = [this.directionalLight, ...this.headlights];
+    
+    this.renderer.shadowMap.enabled = count > 0;
+    casters.forEach((light, i) => {
+      light.castShadow = i < count;
+      
+      // A resized map is reallocated on the next shadow pass
+      const size = this.preset.shadowMapSize * this.governor.getQuality().shadows / (i === 0 ? 1 : 2);
+      if (light.shadow.mapSize.x !== size) {
+        light.shadow.mapSize.set(size, size);
+        light.shadow.map?.dispose();
+        light.shadow.map = null;
+      }
     });
+  }
+  
+  /**
+   * Switch biome: new scenery streams in ahead while the sky, fog and
+   * lighting blend over, or change at once with immediate
+   */
+  private setBiome(biome: BiomeDefinition, immediate: boolean = false): void {
+    if (this.biome === biome && !immediate) return;
     
-    this.skybox = new THREE.Mesh(skyGeometry, skyMaterial);
-    this.scene.add(this.skybox);
+    this.previousBiome = immediate ? biome : this.biome;
+    this.biome = biome;
+    this.biomeBlend = immediate ? 1 : 0;
+    this.roadRenderer.setScenery(biome.scenery);
+    this.applyEnvironmentLook();
+  }
+  
+  /**
+   * Advance the biome blend and the clock; the clock follows run time so replays match the run
+   */
+  private updateEnvironment(frameTime: number): void {
+    this.timeOfDay.update(this.simulation.getRunTime(), this.simulation.getStats().level, frameTime);
+    
+    // Weather lives in the simulation; only its look is applied here
+    const weather = this.simulation.getWeather();
+    if (weather.getCurrent() !== this.lookWeather && weather.getBlend() < 1 && this.onMilestone) {
+      this.onMilestone(`${weather.getCurrent().name} ahead`);
+    }
+    
+    const settled = this.biomeBlend >= 1 && weather.getBlend() >= 1 && weather.getCurrent() === this.lookWeather;
+    if (settled && this.timeOfDay.getHour() === this.lookHour) return;
+    
+    this.biomeBlend = Math.min(this.biomeBlend + frameTime / this.BIOME_TRANSITION_TIME, 1);
+    this.applyEnvironmentLook();
+  }
+  
+  /**
+   * Apply the sky, fog, lighting and surface colors between the previous and
+   * current biome, then grey them for the weather and darken or tint them for the time of day
+   */
+  private applyEnvironmentLook(): void {
+    const from = this.previousBiome;
+    const to = this.biome;
+    const t = MathUtils.smoothStep(0, 1, this.biomeBlend);
+    const mix = (a: number, b: number, target: THREE.Color) => target.set(a).lerp(this.blendColor.set(b), t);
+    
+    const weather = this.simulation.getWeather();
+    const overcast = weather.getOvercast();
+    const wetness = weather.getWetness();
+    this.lookWeather = weather.getCurrent();
+    this.weatherTint.set(weather.getPrevious().tint).lerp(this.blendColor.set(weather.getCurrent().tint), weather.getBlend());
+    
+    mix(from.palette.skyTop, to.palette.skyTop, this.skyTop).lerp(this.weatherTint, overcast);
+    mix(from.palette.skyHorizon, to.palette.skyHorizon, this.skyHorizon).lerp(this.weatherTint, overcast);
+    
+    const day = this.timeOfDay.getState(this.daylight);
+    const night = 1 - day.daylight;
+    const twilight = day.twilight * (1 - overcast); // Clouds hide the sunset
+    this.lookHour = day.hour;
+    this.skyTop.lerp(this.NIGHT_SKY_TOP, night);
+    this.skyHorizon.lerp(this.NIGHT_SKY_HORIZON, night).lerp(this.TWILIGHT_GLOW, twilight * 0.5);
+    ThreeUtils.paintSkyGradient(this.skybox, this.skyTop, this.skyHorizon);
+    
+    // Fog fades into the horizon, never beyond the render distance, and closes in with the weather
+    const fog = this.scene.fog as THREE.Fog;
+    const visibility = weather.getVisibility();
+    fog.color.copy(this.skyHorizon);
+    fog.near = MathUtils.lerp(from.fog.near, to.fog.near, t) * visibility;
+    fog.far = Math.min(MathUtils.lerp(from.fog.far, to.fog.far, t), this.renderDistance) * visibility;
+    
+    // Wet asphalt is darker and glossy
+    mix(from.palette.ground, to.palette.ground, (this.ground.material as THREE.MeshLambertMaterial).color);
+    this.roadRenderer.setSurfaceColors(
+      mix(from.palette.road, to.palette.road, new THREE.Color()).multiplyScalar(1 - this.WET_ROAD_DARKENING * wetness),
+      mix(from.palette.shoulder, to.palette.shoulder, new THREE.Color()),
+      mix(from.palette.marking, to.palette.marking, new THREE.Color())
+    );
+    this.roadRenderer.setWetness(wetness);
+    
+    // Ambient light dims toward night; the sun warms near the horizon and hands over to the moon
+    const ambientScale = MathUtils.lerp(this.NIGHT_AMBIENT, 1, day.daylight);
+    mix(from.lighting.ambient, to.lighting.ambient, this.ambientLight.color);
+    this.ambientLight.intensity = MathUtils.lerp(from.lighting.ambientIntensity, to.lighting.ambientIntensity, t) * ambientScale;
+    mix(from.lighting.hemisphereSky, to.lighting.hemisphereSky, this.hemisphereLight.color);
+    mix(from.lighting.hemisphereGround, to.lighting.hemisphereGround, this.hemisphereLight.groundColor);
+    this.hemisphereLight.intensity = this.HEMISPHERE_INTENSITY * ambientScale;
+    mix(from.lighting.sun, to.lighting.sun, this.directionalLight.color)
+      .lerp(this.TWILIGHT_GLOW, twilight * 0.6)
+      .lerp(this.MOONLIGHT, day.moonlight);
+    this.directionalLight.intensity =
+      (MathUtils.lerp(from.lighting.sunIntensity, to.lighting.sunIntensity, t) * day.sunlight +
+      this.MOON_INTENSITY * day.moonlight) * (1 - this.OVERCAST_SUN * overcast);
+    
+    this.headlights.forEach(light => light.intensity = this.HEADLIGHT_INTENSITY * day.night);
+    this.roadRenderer.setLampGlow(day.night);
+    
+    // Impostors were baked under plain white light, so they dim with the ambient light
+    this.impostors.setLight(this.impostorLight.setScalar(ambientScale));
+    
+    const accent = (biome: BiomeDefinition) => biome.lighting.accentLights.length > 0 ? this.ACCENT_INTENSITY : 0;
+    this.accentLights.forEach((light, i) => {
+      light.intensity = MathUtils.lerp(accent(from), accent(to), t);
+      const color = to.lighting.accentLights[i] ?? from.lighting.accentLights[i];
+      if (color !== undefined) {
+        light.color.set(color);
+      }
+    });
   }
 
   private initializeGameSystems(): void {
-    this.carController = new CarController(this.scene, this.camera);
-    this.obstacleManager = new ObstacleManager(this.scene);
-    this.collisionDetector = new CollisionDetector();
-    this.scoreManager = new ScoreManager();
-    this.audioManager = new AudioManager();
+    // Presentation reacts to simulation events
+    this.simulation.setCollisionCallback((_obstacle, damage) => {
+      this.audioManager.playCollisionSound();
+      this.addScreenShake(0.2 + damage / 60); // Harder hits shake more
+    });
+    this.simulation.setLevelUpCallback((level) => {
+      this.audioManager.playLevelUpSound();
+      
+      const biome = getBiomeForLevel(this.settings.biome, level);
+      if (biome !== this.biome) {
+        this.setBiome(biome);
+        if (this.onMilestone) {
+          this.onMilestone(`Entering ${biome.name}`);
+        }
+      }
+    });
+    this.simulation.setPowerUpCallback((type) => {
+      this.audioManager.playPickupSound(type);
+    });
+    this.simulation.setMilestoneCallback((milestone) => {
+      this.audioManager.playLevelUpSound();
+      if (this.onMilestone) {
+        this.onMilestone(milestone);
+      }
+    });
+    this.simulation.setGameOverCallback(() => {
+      this.endGame();
+    });
     
     // Configure audio volumes
     this.audioManager.setMasterVolume(this.settings.audio.masterVolume);
     this.audioManager.setSFXVolume(this.settings.audio.sfxVolume);
     this.audioManager.setMusicVolume(this.settings.audio.musicVolume);
+    this.audioManager.setEngineVolume(this.settings.audio.engineVolume);
   }
 
   private setupEventListeners(): void {
-    window.addEventListener('resize', this.handleResize.bind(this));
-    window.addEventListener('keydown', this.handleKeyDown.bind(this));
-    window.addEventListener('keyup', this.handleKeyUp.bind(this));
-    window.addEventListener('blur', this.handleWindowBlur.bind(this));
-    window.addEventListener('focus', this.handleWindowFocus.bind(this));
+    window.addEventListener('resize', this.boundHandleResize);
+    window.addEventListener('keydown', this.boundHandleKeyDown);
+    window.addEventListener('keyup', this.boundHandleKeyUp);
+    window.addEventListener('blur', this.boundHandleWindowBlur);
+    window.addEventListener('focus', this.boundHandleWindowFocus);
   }
 
   private handleResize(): void {
@@ -257,11 +582,13 @@ export class GameEngine {
     this.camera.aspect = width / height;
     this.camera.updateProjectionMatrix();
     this.renderer.setSize(width, height);
+    this.postProcessor.setSize(width, height);
+    this.weatherRenderer.setViewportHeight(this.renderer.getDrawingBufferSize(this.viewportSize).y);
   }
 
   private handleKeyDown(event: KeyboardEvent): void {
     if (this.gameState === GameState.PLAYING) {
-      this.carController.handleKeyDown(event);
+      this.simulation.setKeyState(event.code, true);
       
       if (event.code === 'Escape') {
         this.pauseGame();
@@ -275,7 +602,7 @@ export class GameEngine {
 
   private handleKeyUp(event: KeyboardEvent): void {
     if (this.gameState === GameState.PLAYING) {
-      this.carController.handleKeyUp(event);
+      this.simulation.setKeyState(event.code, false);
     }
   }
 
@@ -289,13 +616,79 @@ export class GameEngine {
     // Resume game logic can be handled by user interaction
   }
 
-  public startGame(): void {
-    this.resetGameStats();
+  public startGame(seed?: number): void {
+    this.simulation.reset(seed);
+    this.beginRun();
+  }
+
+  /**
+   * Drive the last run's course again; its stored ghost races along
+   */
+  public retrySeed(): void {
+    this.startGame(this.simulation.getSeed());
+  }
+
+  /**
+   * Press or release nitro from on-screen controls; routed through the
+   * simulation's input so boosts are recorded in replays
+   */
+  public setBoostInput(pressed: boolean): void {
+    if (this.gameState === GameState.PLAYING) {
+      this.simulation.setKeyState('ShiftLeft', pressed);
+    }
+  }
+
+  /**
+   * Play back a recorded run through the live view
+   */
+  public watchReplay(replay: ReplayData): void {
+    this.simulation.playReplay(replay);
+    this.beginRun();
+  }
+
+  /**
+   * Load a replay file from disk and start watching it
+   */
+  public async loadReplayFile(file: File): Promise<ReplayData> {
+    const replay = await ReplaySystem.readFile(file);
+    this.watchReplay(replay);
+    return replay;
+  }
+
+  /**
+   * Download the replay of the last finished run
+   */
+  public saveLastReplay(): boolean {
+    const replay = this.simulation.getLastReplay();
+    if (!replay) return false;
+    
+    ReplaySystem.download(replay);
+    return true;
+  }
+
+  public getLastReplay(): ReplayData | null {
+    return this.simulation.getLastReplay();
+  }
+
+  public isReplaying(): boolean {
+    return this.simulation.isReplaying();
+  }
+
+  private beginRun(): void {
+    if (this.animationId) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+    
     this.gameState = GameState.PLAYING;
-    this.carController.reset();
-    this.obstacleManager.reset();
-    this.scoreManager.reset();
+    this.accumulator = 0;
+    this.shakeTime = 0;
+    this.roadRenderer.reset(); // The road is laid out from the run's seed
+    this.timeOfDay.reset(this.settings.timeOfDay);
+    this.setBiome(getBiomeForLevel(this.settings.biome, 1), true);
+    this.loadGhost();
     this.audioManager.playBackgroundMusic();
+    this.audioManager.startEngineSound();
     this.clock.start();
     
     if (this.onStateChange) {
@@ -305,10 +698,25 @@ export class GameEngine {
     this.gameLoop();
   }
 
+  /**
+   * Race against the best stored run on the current seed, if any
+   */
+  private loadGhost(): void {
+    const recording = GhostStorage.load(this.simulation.getSeed());
+    const track = recording ? new GhostTrack(recording) : null;
+    
+    this.simulation.setGhostTrack(track);
+    this.ghostCar.setTrack(track);
+    this.ghostCar.update(0);
+  }
+
   public pauseGame(): void {
     if (this.gameState === GameState.PLAYING) {
       this.gameState = GameState.PAUSED;
       this.clock.stop();
+      
+      // Key-up events are lost while unfocused, so release everything now
+      this.simulation.clearInput();
       this.audioManager.pauseBackgroundMusic();
       
       if (this.onStateChange) {
@@ -332,9 +740,16 @@ export class GameEngine {
   }
 
   public endGame(): void {
+    if (this.gameState === GameState.GAME_OVER) {
+      return;
+    }
+    
     this.gameState = GameState.GAME_OVER;
+    this.simulation.endRun(); // No-op when the simulation ended the run itself
+    this.saveGhost();
     this.clock.stop();
     this.audioManager.stopBackgroundMusic();
+    this.audioManager.stopEngineSound();
     this.audioManager.playGameOverSound();
     
     if (this.animationId) {
@@ -343,7 +758,7 @@ export class GameEngine {
     }
     
     if (this.onGameOver) {
-      this.onGameOver({ ...this.stats });
+      this.onGameOver(this.simulation.getStats());
     }
     
     if (this.onStateChange) {
@@ -351,11 +766,23 @@ export class GameEngine {
     }
   }
 
+  /**
+   * Keep the finished live run as the seed's ghost if it beat the stored one
+   */
+  private saveGhost(): void {
+    if (this.simulation.isReplaying()) return;
+    
+    const recording = this.simulation.getLastGhost();
+    if (recording) {
+      GhostStorage.saveIfBest(recording);
+    }
+  }
+
   public resetGame(): void {
-    this.resetGameStats();
-    this.carController.reset();
-    this.obstacleManager.reset();
-    this.scoreManager.reset();
+    this.simulation.reset();
+    this.ghostCar.setTrack(null);
+    this.audioManager.stopBackgroundMusic();
+    this.audioManager.stopEngineSound();
     this.gameState = GameState.MENU;
     
     if (this.onStateChange) {
@@ -363,108 +790,149 @@ export class GameEngine {
     }
   }
 
-  private resetGameStats(): void {
-    this.stats = {
-      score: 0,
-      distance: 0,
-      speed: 0,
-      lives: 3,
-      combo: 0,
-      obstaclesAvoided: 0,
-      timeElapsed: 0,
-      level: 1
-    };
-  }
-
   private gameLoop(): void {
     if (this.gameState !== GameState.PLAYING) {
       return;
     }
     
-    const deltaTime = this.clock.getDelta();
-    this.updateGame(deltaTime);
+    // Accumulate real time and consume it in fixed simulation steps
+    const frameTime = Math.min(this.clock.getDelta(), this.MAX_FRAME_TIME);
+    this.accumulator += frameTime;
+    
+    let steps = 0;
+    while (this.accumulator >= this.FIXED_TIMESTEP && this.gameState === GameState.PLAYING) {
+      if (steps >= this.MAX_STEPS_PER_FRAME) {
+        // Too far behind: drop the backlog instead of spiralling
+        this.accumulator = 0;
+        break;
+      }
+      this.simulation.step();
+      this.accumulator -= this.FIXED_TIMESTEP;
+      steps++;
+    }
+    
+    // Game may have ended during a step
+    if (this.gameState !== GameState.PLAYING) {
+      return;
+    }
+    
+    // Blend between the last two steps for smooth rendering
+    const alpha = this.accumulator / this.FIXED_TIMESTEP;
+    this.simulation.interpolate(alpha);
+    this.ghostCar.update(this.simulation.getRunTime() - (1 - alpha) * this.FIXED_TIMESTEP);
+    
+    this.updateFrame(frameTime);
+    this.updateFPS();
+    this.governor.update(frameTime);
+    this.notifyStats();
     this.render();
     
     this.animationId = requestAnimationFrame(() => this.gameLoop());
   }
 
-  private updateGame(deltaTime: number): void {
-    // Update game systems
-    this.carController.update(deltaTime);
-    this.obstacleManager.update(deltaTime, this.carController.getPosition());
-    
-    // Update stats
-    this.stats.timeElapsed += deltaTime;
-    this.stats.distance = this.carController.getDistanceTraveled();
-    this.stats.speed = this.carController.getSpeed();
+  /**
+   * Advance the simulation by whole fixed steps without rendering.
+   * Works while playing or paused; returns the number of steps taken.
+   */
+  public stepSimulation(steps: number = 1): number {
+    let taken = 0;
     
-    // Check collisions
-    const carBoundingBox = this.carController.getBoundingBox();
-    const obstacles = this.obstacleManager.getActiveObstacles();
+    while (taken < steps &&
+           (this.gameState === GameState.PLAYING || this.gameState === GameState.PAUSED)) {
+      this.simulation.step();
+      taken++;
+    }
     
-    for (const obstacle of obstacles) {
-      if (this.collisionDetector.checkCollision(carBoundingBox, obstacle.boundingBox)) {
-        this.handleCollision(obstacle);
-        break;
-      }
+    this.simulation.interpolate(1);
+    this.ghostCar.update(this.simulation.getRunTime());
+    this.notifyStats();
+    return taken;
+  }
+
+  private notifyStats(): void {
+    if (this.onStatsUpdate) {
+      this.onStatsUpdate(this.simulation.getStats());
     }
+  }
+
+  /**
+   * Per-frame presentation: camera follow, shake and engine audio
+   */
+  private updateFrame(frameTime: number): void {
+    const carController = this.simulation.getCarController();
+    const carMesh = this.simulation.getCarMesh();
     
-    // Update score based on distance and speed
-    const distanceScore = Math.floor(this.stats.distance / 10);
-    const speedBonus = Math.floor(this.stats.speed * 2);
-    this.stats.score = this.scoreManager.calculateScore(distanceScore, speedBonus, this.stats.combo);
+    // Drive engine audio from car state
+    this.audioManager.updateEngineSound({
+      intensity: carController.getEngineSound(),
+      isAccelerating: carController.isAccelerating(),
+      isBraking: carController.isBraking()
+    });
     
-    // Check for level progression
-    const newLevel = Math.floor(this.stats.distance / 1000) + 1;
-    if (newLevel > this.stats.level) {
-      this.stats.level = newLevel;
-      this.obstacleManager.increaseDifficulty();
-      this.audioManager.playLevelUpSound();
-    }
+    // Stream the road around the car
+    const roadPath = this.roadRenderer.getPath();
+    this.roadRenderer.update(-carMesh.position.z);
     
-    // Update FPS counter
-    this.updateFPS();
+    // Smoothly follow the rendered (interpolated) car along the road
+    const desiredPosition = roadPath.toWorld(carMesh.position.clone().add(this.CAMERA_OFFSET));
+    const followFactor = 1 - Math.exp(-6 * frameTime);
+    this.camera.position.lerp(desiredPosition, followFactor);
+    this.cameraTarget.lerp(roadPath.toWorld(carMesh.position, this.cameraGoal), followFactor);
     
-    // Notify stats update
-    if (this.onStatsUpdate) {
-      this.onStatsUpdate({ ...this.stats });
+    if (this.shakeTime > 0) {
+      this.camera.position.x += (Math.random() - 0.5) * this.shakeIntensity;
+      this.camera.position.y += (Math.random() - 0.5) * this.shakeIntensity;
+      this.shakeTime = Math.max(this.shakeTime - frameTime, 0);
     }
     
-    // Check game over condition
-    if (this.stats.lives <= 0) {
-      this.endGame();
+    this.camera.lookAt(this.cameraTarget);
+    
+    this.postProcessor.setSpeed(carController.getNormalizedSpeed());
+    
+    // Ease the field of view out while boosting and back afterwards
+    const targetFov = carController.isBoosting() ? this.BOOST_FOV : this.BASE_FOV;
+    if (Math.abs(this.camera.fov - targetFov) > 0.01) {
+      this.camera.fov += (targetFov - this.camera.fov) * (1 - Math.exp(-4 * frameTime));
+      this.camera.updateProjectionMatrix();
     }
-  }
-
-  private handleCollision(obstacle: any): void {
-    this.stats.lives--;
-    this.stats.combo = 0;
-    this.carController.handleCollision();
-    this.audioManager.playCollisionSound();
-    this.obstacleManager.removeObstacle(obstacle);
     
-    // Add screen shake effect
-    this.addScreenShake();
-  }
-
-  private addScreenShake(): void {
-    const originalPosition = this.camera.position.clone();
-    const shakeIntensity = 0.5;
-    const shakeDuration = 0.3;
-    let shakeTime = 0;
+    this.updateEnvironment(frameTime);
     
-    const shake = () => {
-      if (shakeTime < shakeDuration) {
-        this.camera.position.x = originalPosition.x + (Math.random() - 0.5) * shakeIntensity;
-        this.camera.position.y = originalPosition.y + (Math.random() - 0.5) * shakeIntensity;
-        shakeTime += 0.016; // ~60fps
-        requestAnimationFrame(shake);
-      } else {
-        this.camera.position.copy(originalPosition);
+    // Keep the sky and ground centred on the camera, and the sun (or moon) over the car
+    this.skybox.position.copy(this.camera.position);
+    this.ground.position.x = this.camera.position.x;
+    this.ground.position.z = this.camera.position.z;
+    this.directionalLight.target.position.copy(this.cameraTarget);
+    this.directionalLight.position.copy(this.cameraTarget).addScaledVector(this.daylight.sunDirection, this.SUN_DISTANCE);
+    this.accentLights.forEach((light, i) => {
+      roadPath.toWorld(this.accentPosition.copy(carMesh.position).add(this.ACCENT_LIGHT_OFFSETS[i]), light.position);
+    });
+    
+    // The car mesh is rebuilt when the car or paint changes, taking its beams with it
+    if (carMesh !== this.headlightCar) {
+      this.attachHeadlights(carMesh);
+      this.applyEnvironmentLook();
+    }
+    
+    // Lamp lights jump to the lamps nearest the car; spare ones go dark rather than
+    // being hidden, which would change the light count and recompile shaders
+    const lamps = this.daylight.night > 0 ? this.roadRenderer.getNearestLamps(this.cameraTarget, this.lampPositions) : 0;
+    this.lampLights.forEach((light, i) => {
+      light.intensity = i < lamps ? this.LAMP_INTENSITY * this.daylight.night : 0;
+      if (i < lamps) {
+        light.position.copy(this.lampPositions[i]);
+        light.position.y -= 0.5; // Just under the lamp head
       }
-    };
+    });
     
-    shake();
+    // Rain and snow fall around the camera on the run clock, so they freeze with a pause
+    const light = MathUtils.lerp(0.3, 1, this.daylight.daylight);
+    this.weatherRenderer.update(this.simulation.getWeather(), this.camera.position, this.simulation.getRunTime(), light);
+  }
+
+  private addScreenShake(intensity: number = 0.5): void {
+    this.shakeTime = 0.3;
+    this.shakeIntensity = intensity;
   }
 
   private updateFPS(): void {
@@ -479,7 +947,16 @@ export class GameEngine {
   }
 
   private render(): void {
-    this.renderer.render(this.scene, this.camera);
+    // Gameplay runs on a straight track; bend it onto the road just for drawing
+    const obstacleManager = this.simulation.getObstacleManager();
+    this.roadRenderer.bend([
+      this.simulation.getCarMesh(),
+      this.ghostCar.getMesh(),
+      ...obstacleManager.getObstacles().map(obstacle => obstacle.mesh),
+      ...obstacleManager.getPickups().map(pickup => pickup.mesh)
+    ]);
+    this.postProcessor.render();
+    this.roadRenderer.unbend();
   }
 
   // Public API methods
@@ -488,7 +965,44 @@ export class GameEngine {
   }
 
   public getStats(): GameStats {
-    return { ...this.stats };
+    return this.simulation.getStats();
+  }
+
+  public getHighScore(): number {
+    return this.simulation.getScoreManager().getHighScore();
+  }
+
+  /**
+   * Pick the roster car for the next run and remember it
+   */
+  public setCar(id: CarId): void {
+    this.simulation.setCar(id);
+    CarSelectionStorage.save(id);
+  }
+
+  public getCarId(): CarId {
+    return this.simulation.getCarId();
+  }
+
+  /**
+   * Repaint the car from the next run (null = factory paint) and remember it
+   */
+  public setLivery(livery: Livery | null): void {
+    this.settings = { ...this.settings, livery };
+    this.simulation.setLivery(livery);
+    LiveryStorage.save(livery);
+  }
+
+  public getLivery(): Livery | null {
+    return this.settings.livery;
+  }
+
+  public getSeed(): number {
+    return this.simulation.getSeed();
+  }
+
+  public getSimulation(): Simulation {
+    return this.simulation;
   }
 
   public getSettings(): GameSettings {
@@ -502,25 +1016,44 @@ export class GameEngine {
 
   private applySettings(): void {
     // Apply graphics settings
-    this.renderer.shadowMap.enabled = this.settings.graphics.shadows;
-    this.directionalLight.castShadow = this.settings.graphics.shadows;
-    this.scene.fog = new THREE.Fog(0x87CEEB, 100, this.settings.graphics.renderDistance);
-    this.camera.far = this.settings.graphics.renderDistance;
-    this.camera.updateProjectionMatrix();
+    this.applyGraphicsQuality();
+    this.postProcessor.setEffects(this.settings.graphics.postEffects);
+    this.postProcessor.setEnabled(this.settings.graphics.postProcessing);
+    this.weatherRenderer.setEnabled(this.settings.graphics.particleEffects);
+    this.applyEnvironmentLook(); // Fog range depends on the render distance, and the sky may be new
     
     // Apply audio settings
     this.audioManager.setMasterVolume(this.settings.audio.masterVolume);
     this.audioManager.setSFXVolume(this.settings.audio.sfxVolume);
     this.audioManager.setMusicVolume(this.settings.audio.musicVolume);
+    this.audioManager.setEngineVolume(this.settings.audio.engineVolume);
     
     // Apply control settings
-    this.carController.setSensitivity(this.settings.controls.sensitivity);
+    this.simulation.setSensitivity(this.settings.controls.sensitivity);
+    this.simulation.setPhysicsModel(this.settings.controls.physicsModel);
+    this.simulation.setLivery(this.settings.livery);
+    this.simulation.setWeather(this.settings.weather);
   }
 
   public getFPS(): number {
     return this.currentFPS;
   }
 
+  /**
+   * What the adaptive quality governor is doing, for the debug overlay
+   */
+  public getQualityReport(): QualityReport {
+    return this.governor.getReport();
+  }
+
+  public getSimulationTick(): number {
+    return this.simulation.getTick();
+  }
+
+  public getFixedTimestep(): number {
+    return this.FIXED_TIMESTEP;
+  }
+
   public setStateChangeCallback(callback: (state: GameState) => void): void {
     this.onStateChange = callback;
   }
@@ -533,24 +1066,32 @@ export class GameEngine {
     this.onGameOver = callback;
   }
 
+  public setMilestoneCallback(callback: (milestone: string) => void): void {
+    this.onMilestone = callback;
+  }
+
   public dispose(): void {
     // Clean up resources
     if (this.animationId) {
       cancelAnimationFrame(this.animationId);
     }
     
-    this.carController.dispose();
-    this.obstacleManager.dispose();
+    this.simulation.dispose();
+    this.ghostCar.dispose();
+    this.roadRenderer.dispose();
+    this.weatherRenderer.dispose();
+    this.impostors.dispose();
+    this.postProcessor.dispose();
     this.audioManager.dispose();
     
     this.scene.clear();
     this.renderer.dispose();
     
     // Remove event listeners
-    window.removeEventListener('resize', this.handleResize.bind(this));
-    window.removeEventListener('keydown', this.handleKeyDown.bind(this));
-    window.removeEventListener('keyup', this.handleKeyUp.bind(this));
-    window.removeEventListener('blur', this.handleWindowBlur.bind(this));
-    window.removeEventListener('focus', this.handleWindowFocus.bind(this));
+    window.removeEventListener('resize', this.boundHandleResize);
+    window.removeEventListener('keydown', this.boundHandleKeyDown);
+    window.removeEventListener('keyup', this.boundHandleKeyUp);
+    window.removeEventListener('blur', this.boundHandleWindowBlur);
+    window.removeEventListener('focus', this.boundHandleWindowFocus);
   }
 }
\ No newline at end of file
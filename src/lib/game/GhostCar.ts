@@ -0,0 +1,327 @@
+// Ghost car system for the 3D car racing game
+import * as THREE from 'three';
+import { ThreeUtils } from '../utils/three-utils';
+import { MathUtils } from '../utils/math-utils';
+import { CarId, DEFAULT_CAR_ID, getCarDefinition } from './CarRoster';
+import { Livery, parseLivery } from './Livery';
+
+export interface GhostRecording {
+  seed: number;
+  timestep: number; // Seconds per simulation tick
+  sampleInterval: number; // Ticks between samples
+  samples: number[]; // Flat [x, z, rotation] triplets
+  score: number;
+  carId?: CarId; // Car and paint the run was driven with (absent in older ghosts)
+  livery?: Livery | null;
+}
+
+export interface GhostPose {
+  position: THREE.Vector3;
+  rotation: number;
+}
+
+const STORAGE_PREFIX = 'car-racing-ghost-';
+
+export class GhostRecorder {
+  // 20 Hz at the 120 Hz simulation rate keeps stored runs small
+  static readonly SAMPLE_INTERVAL = 6;
+
+  private seed: number = 0;
+  private timestep: number = 0;
+  private carId: CarId = DEFAULT_CAR_ID;
+  private livery: Livery | null = null;
+  private samples: number[] = [];
+  private recording: boolean = false;
+
+  /**
+   * Begin recording a run on the given seed
+   */
+  start(seed: number, timestep: number, carId: CarId, livery: Livery | null): void {
+    this.seed = seed;
+    this.timestep = timestep;
+    this.carId = carId;
+    this.livery = livery;
+    this.samples = [];
+    this.recording = true;
+  }
+
+  /**
+   * Record the car pose after a simulation tick
+   */
+  record(tick: number, position: THREE.Vector3, rotation: number): void {
+    if (!this.recording || tick % GhostRecorder.SAMPLE_INTERVAL !== 0) return;
+
+    // Centimetre precision is plenty for a visual ghost and keeps storage small
+    this.samples.push(
+      Math.round(position.x * 100) / 100,
+      Math.round(position.z * 100) / 100,
+      Math.round(rotation * 1000) / 1000
+    );
+  }
+
+  /**
+   * Stop recording and return the finished ghost
+   */
+  finish(score: number): GhostRecording | null {
+    if (!this.recording) return null;
+    this.recording = false;
+
+    return {
+      seed: this.seed,
+      timestep: this.timestep,
+      sampleInterval: GhostRecorder.SAMPLE_INTERVAL,
+      samples: this.samples,
+      score,
+      carId: this.carId,
+      livery: this.livery
+    };
+  }
+
+  /**
+   * Discard the current recording
+   */
+  cancel(): void {
+    this.recording = false;
+    this.samples = [];
+  }
+}
+
+export class GhostTrack {
+  private recording: GhostRecording;
+  private sampleDuration: number;
+  private sampleCount: number;
+  private maxProgress: number[] = [];
+
+  constructor(recording: GhostRecording) {
+    this.recording = recording;
+    this.sampleDuration = recording.sampleInterval * recording.timestep;
+    this.sampleCount = Math.floor(recording.samples.length / 3);
+
+    // Running maximum of forward progress (-Z) so lookups survive pushbacks
+    let best = -Infinity;
+    for (let i = 0; i < this.sampleCount; i++) {
+      best = Math.max(best, -recording.samples[i * 3 + 1]);
+      this.maxProgress.push(best);
+    }
+  }
+
+  /**
+   * Get the ghost pose at the given run time (seconds)
+   */
+  getPoseAt(time: number, target?: GhostPose): GhostPose | null {
+    if (this.sampleCount === 0) return null;
+
+    const samples = this.recording.samples;
+    const position = MathUtils.clamp(time / this.sampleDuration - 1, 0, this.sampleCount - 1);
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, this.sampleCount - 1);
+    const t = position - index;
+
+    const pose = target ?? { position: new THREE.Vector3(), rotation: 0 };
+    pose.position.set(
+      MathUtils.lerp(samples[index * 3], samples[next * 3], t),
+      0.5,
+      MathUtils.lerp(samples[index * 3 + 1], samples[next * 3 + 1], t)
+    );
+    pose.rotation = MathUtils.lerp(samples[index * 3 + 2], samples[next * 3 + 2], t);
+    return pose;
+  }
+
+  /**
+   * Time (seconds) at which the ghost first reached the given forward progress,
+   * or null if it never got that far
+   */
+  getTimeAtProgress(progress: number): number | null {
+    if (this.sampleCount === 0 || progress > this.maxProgress[this.sampleCount - 1]) {
+      return null;
+    }
+
+    // Binary search for the first sample at or past the progress
+    let low = 0;
+    let high = this.sampleCount - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.maxProgress[mid] >= progress) {
+        high = mid;
+      } else {
+        low = mid + 1;
+      }
+    }
+
+    // Interpolate within the sample interval that crossed the progress (runs start at z = 0)
+    const before = low > 0 ? this.maxProgress[low - 1] : 0;
+    const after = this.maxProgress[low];
+    const fraction = after > before ? MathUtils.clamp((progress - before) / (after - before), 0, 1) : 1;
+
+    // Sample i was recorded after tick (i + 1) * interval
+    return (low + fraction) * this.sampleDuration;
+  }
+
+  /**
+   * Check whether the ghost has finished its run at the given time
+   */
+  isFinished(time: number): boolean {
+    return time / this.sampleDuration - 1 >= this.sampleCount - 1;
+  }
+
+  getSeed(): number {
+    return this.recording.seed;
+  }
+
+  getScore(): number {
+    return this.recording.score;
+  }
+
+  getCarId(): CarId {
+    return getCarDefinition(this.recording.carId ?? DEFAULT_CAR_ID).id;
+  }
+
+  getLivery(): Livery | null {
+    return parseLivery(this.recording.livery);
+  }
+}
+
+export class GhostCar {
+  private scene: THREE.Scene;
+  private mesh: THREE.Group;
+  private track: GhostTrack | null = null;
+  private pose: GhostPose = { position: new THREE.Vector3(), rotation: 0 };
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+    this.mesh = this.createMesh(DEFAULT_CAR_ID, null);
+    this.scene.add(this.mesh);
+  }
+
+  /**
+   * Build the ghost's car in the look it was driven with
+   */
+  private createMesh(carId: CarId, livery: Livery | null): THREE.Group {
+    const mesh = ThreeUtils.createCarGeometry(getCarDefinition(carId).body);
+    if (livery) {
+      ThreeUtils.applyLivery(mesh, livery);
+    }
+
+    // Translucent, unlit-looking copy that never hides the real car
+    mesh.traverse(child => {
+      if (child instanceof THREE.Mesh) {
+        const original = child.material as THREE.Material;
+        const material = original.clone();
+        original.dispose();
+        material.transparent = true;
+        material.opacity = 0.3;
+        material.depthWrite = false;
+        child.material = material;
+        child.castShadow = false;
+        child.receiveShadow = false;
+        child.renderOrder = 1;
+      }
+    });
+
+    mesh.visible = false;
+    return mesh;
+  }
+
+  /**
+   * Set the track to drive, or null to hide the ghost
+   */
+  setTrack(track: GhostTrack | null): void {
+    if (track) {
+      this.scene.remove(this.mesh);
+      ThreeUtils.dispose(this.mesh);
+      this.mesh = this.createMesh(track.getCarId(), track.getLivery());
+      this.scene.add(this.mesh);
+    }
+
+    this.track = track;
+    this.mesh.visible = track !== null;
+  }
+
+  /**
+   * Move the ghost to its pose at the given run time
+   */
+  update(time: number): void {
+    if (!this.track) return;
+
+    const pose = this.track.getPoseAt(time, this.pose);
+    if (!pose) return;
+
+    this.mesh.position.copy(pose.position);
+    this.mesh.rotation.y = pose.rotation;
+    this.mesh.visible = !this.track.isFinished(time);
+  }
+
+  getMesh(): THREE.Group {
+    return this.mesh;
+  }
+
+  /**
+   * Dispose of ghost car
+   */
+  dispose(): void {
+    this.scene.remove(this.mesh);
+    ThreeUtils.dispose(this.mesh);
+    this.track = null;
+  }
+}
+
+/**
+ * Check a stored ghost's shape; car and paint are checked where they are used
+ */
+function parseGhostRecording(data: unknown, seed: number): GhostRecording | null {
+  if (!data || typeof data !== 'object') return null;
+  const recording = data as Partial<GhostRecording>;
+
+  const isPositive = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+  if (recording.seed !== seed || !isPositive(recording.timestep) ||
+      !Number.isInteger(recording.sampleInterval) || (recording.sampleInterval as number) <= 0 ||
+      typeof recording.score !== 'number' || !Number.isFinite(recording.score) ||
+      !Array.isArray(recording.samples) || recording.samples.length % 3 !== 0 ||
+      !recording.samples.every(value => typeof value === 'number' && Number.isFinite(value))) {
+    return null;
+  }
+
+  return recording as GhostRecording;
+}
+
+export class GhostStorage {
+  /**
+   * Load the best ghost stored for a seed
+   */
+  static load(seed: number): GhostRecording | null {
+    if (typeof window === 'undefined') return null;
+
+    const saved = localStorage.getItem(STORAGE_PREFIX + seed);
+    if (!saved) return null;
+
+    try {
+      const recording = parseGhostRecording(JSON.parse(saved), seed);
+      if (recording) return recording;
+    } catch {
+      // Unreadable JSON is discarded with malformed ghosts below
+    }
+
+    console.warn(`Discarding corrupt ghost for seed ${seed}`);
+    localStorage.removeItem(STORAGE_PREFIX + seed);
+    return null;
+  }
+
+  /**
+   * Store a ghost if it beats the saved one for its seed; returns true if stored
+   */
+  static saveIfBest(recording: GhostRecording): boolean {
+    if (typeof window === 'undefined') return false;
+
+    const current = GhostStorage.load(recording.seed);
+    if (current && current.score >= recording.score) return false;
+
+    try {
+      localStorage.setItem(STORAGE_PREFIX + recording.seed, JSON.stringify(recording));
+      return true;
+    } catch (error) {
+      console.warn('Failed to store ghost run', error);
+      return false;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+// Graphics quality presets for the 3D car racing game
+
+export type GraphicsQuality = 'low' | 'medium' | 'high' | 'ultra';
+
+export interface GraphicsPreset {
+  pixelRatio: number; // Cap on the device pixel ratio
+  shadowMapSize: number; // The sun's shadow map; headlights get half
+  shadowLights: number; // Lights casting shadows: the sun, then the two headlights
+  renderDistance: number; // Cap on the render distance setting
+  particleDensity: number; // Share of each weather's particles drawn
+  sceneryDensity: number; // Scales how much scattered roadside scenery is placed
+  roadSliceSpacing: number; // Road mesh resolution along its length, units
+  skySegments: number; // Sky dome tessellation
+  lodScale: number; // Scales every level-of-detail switch distance; lower swaps in simpler models sooner
+}
+
+export const GRAPHICS_PRESETS: Record<GraphicsQuality, GraphicsPreset> = {
+  low: {
+    pixelRatio: 1,
+    shadowMapSize: 512,
+    shadowLights: 0,
+    renderDistance: 400,
+    particleDensity: 0.35,
+    sceneryDensity: 0.4,
+    roadSliceSpacing: 8,
+    skySegments: 12,
+    lodScale: 0.5
+  },
+  medium: {
+    pixelRatio: 1.25,
+    shadowMapSize: 1024,
+    shadowLights: 1,
+    renderDistance: 650,
+    particleDensity: 0.6,
+    sceneryDensity: 0.7,
+    roadSliceSpacing: 6,
+    skySegments: 20,
+    lodScale: 0.75
+  },
+  high: {
+    pixelRatio: 1.5,
+    shadowMapSize: 2048,
+    shadowLights: 1,
+    renderDistance: 1000,
+    particleDensity: 1,
+    sceneryDensity: 1,
+    roadSliceSpacing: 4,
+    skySegments: 32,
+    lodScale: 1
+  },
+  ultra: {
+    pixelRatio: 2,
+    shadowMapSize: 4096,
+    shadowLights: 3,
+    renderDistance: 1000,
+    particleDensity: 1,
+    sceneryDensity: 1.2,
+    roadSliceSpacing: 4,
+    skySegments: 48,
+    lodScale: 1.5
+  }
+};
+
+export const DEFAULT_GRAPHICS_QUALITY: GraphicsQuality = 'high';
\ No newline at end of file
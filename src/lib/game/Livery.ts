@@ -0,0 +1,104 @@
+// Car paint and livery system for the 3D car racing game
+import type { CarBodyStyle } from '../utils/three-utils';
+
+export type RimStyle = 'solid' | 'spoked' | 'deep_dish';
+export type StripeStyle = 'none' | 'center' | 'twin' | 'side';
+
+export interface Livery {
+  bodyColor: number;
+  accentColor: number; // Roof, stripes and race number
+  metalness: number; // 0-1
+  gloss: number; // 0-1
+  rimStyle: RimStyle;
+  stripes: StripeStyle;
+  number: number | null; // Race number on the doors (0-99), null for none
+}
+
+export const RIM_STYLES: RimStyle[] = ['solid', 'spoked', 'deep_dish'];
+export const STRIPE_STYLES: StripeStyle[] = ['none', 'center', 'twin', 'side'];
+
+/**
+ * A plain livery in a car's factory colors
+ */
+export function createFactoryLivery(body: CarBodyStyle): Livery {
+  return {
+    bodyColor: body.color,
+    accentColor: body.roofColor,
+    metalness: 0.3,
+    gloss: 0.5,
+    rimStyle: 'solid',
+    stripes: 'none',
+    number: null
+  };
+}
+
+/**
+ * Validate untrusted data (storage, ghost files) into a livery; returns null if malformed
+ */
+export function parseLivery(data: unknown): Livery | null {
+  if (!data || typeof data !== 'object') return null;
+  const livery = data as Partial<Livery>;
+
+  const isColor = (value: unknown) => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 0xffffff;
+  const isUnit = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+
+  if (!isColor(livery.bodyColor) || !isColor(livery.accentColor) ||
+      !isUnit(livery.metalness) || !isUnit(livery.gloss) ||
+      !RIM_STYLES.includes(livery.rimStyle as RimStyle) ||
+      !STRIPE_STYLES.includes(livery.stripes as StripeStyle)) {
+    return null;
+  }
+
+  const number = Number.isInteger(livery.number) && (livery.number as number) >= 0 && (livery.number as number) <= 99
+    ? livery.number as number
+    : null;
+
+  return {
+    bodyColor: livery.bodyColor as number,
+    accentColor: livery.accentColor as number,
+    metalness: livery.metalness as number,
+    gloss: livery.gloss as number,
+    rimStyle: livery.rimStyle as RimStyle,
+    stripes: livery.stripes as StripeStyle,
+    number
+  };
+}
+
+const STORAGE_KEY = 'car-racing-livery';
+
+export class LiveryStorage {
+  /**
+   * Load the saved livery, or null to use the car's factory paint
+   */
+  static load(): Livery | null {
+    if (typeof window === 'undefined') return null;
+
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return null;
+
+    try {
+      return parseLivery(JSON.parse(saved));
+    } catch {
+      console.warn('Discarding corrupt livery');
+      localStorage.removeItem(STORAGE_KEY);
+      return null;
+    }
+  }
+
+  /**
+   * Save a livery, or clear it with null
+   */
+  static save(livery: Livery | null): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      if (livery) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(livery));
+      } else {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn('Failed to store livery', error);
+    }
+  }
+}
\ No newline at end of file
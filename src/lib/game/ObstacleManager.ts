@@ -1,11 +1,22 @@
 // Obstacle generation and management system
 import * as THREE from 'three';
 import { ThreeUtils } from '../utils/three-utils';
-import { MathUtils } from '../utils/math-utils';
+import { MathUtils, SeededRandom } from '../utils/math-utils';
+import { PowerUpType, POWER_UP_TYPES, POWER_UP_COLORS } from './PowerUpManager';
+import { DRIVABLE_HALF_WIDTH } from './RoadPath';
+
+export type ObstaclePatternType =
+  | 'single_barrier'
+  | 'double_barrier'
+  | 'wall_gap'
+  | 'cone_slalom'
+  | 'narrow_passage'
+  | 'moving_barriers';
 
 export interface ObstacleData {
-  mesh: THREE.Mesh;
+  mesh: THREE.LOD; // Near and far detail levels
   type: 'barrier' | 'wall' | 'cone';
+  pattern?: ObstaclePatternType; // Pattern this obstacle was spawned as part of
   position: THREE.Vector3;
   boundingBox: THREE.Box3;
   isActive: boolean;
@@ -13,18 +24,57 @@ export interface ObstacleData {
   direction?: THREE.Vector3; // For moving obstacles
 }
 
+export interface PickupData {
+  mesh: THREE.Group;
+  type: PowerUpType;
+  position: THREE.Vector3;
+  boundingBox: THREE.Box3;
+  isActive: boolean;
+}
+
+/**
+ * Obstacles spawned together by one pattern; cleared once the car is past all of them
+ */
+interface ObstacleGroup {
+  pattern: ObstaclePatternType;
+  difficulty: number;
+  obstacles: ObstacleData[];
+  clearZ: number; // Car must be beyond this Z (toward -Z) to have passed the pattern
+  wasHit: boolean;
+}
+
 export class ObstacleManager {
   private scene: THREE.Scene | null = null;
   private obstacles: ObstacleData[] = [];
-  private obstaclePool: Map<string, THREE.Mesh[]> = new Map();
+  private groups: ObstacleGroup[] = [];
+  private obstaclePool: Map<string, THREE.LOD[]> = new Map();
+  private pickups: PickupData[] = [];
+  private pickupPool: Map<PowerUpType, THREE.Group[]> = new Map();
+  // The car drives toward -Z, so "ahead" means decreasing Z
   private spawnDistance: number = 100;
-  private despawnDistance: number = -50;
-  private lastSpawnZ: number = 50;
+  private despawnDistance: number = 50;
+  private lastSpawnZ: number = 0;
   private difficulty: number = 1;
   private timeSinceStart: number = 0;
 
+  // Seeded RNG so a given seed always produces the same course
+  private rng: SeededRandom = new SeededRandom(MathUtils.generateSeed());
+  private fixedSeed: number | null = null;
+
+  // Pickups draw from their own stream so they never shift the obstacle layout of a seed
+  private pickupRng: SeededRandom = new SeededRandom(0);
+  private readonly PICKUP_SEED_SALT = 0x9e3779b9;
+  private readonly PICKUP_CHANCE = 0.15; // Per spawned pattern
+  private readonly PICKUP_SIZE = new THREE.Vector3(2, 2, 2);
+
+  // Distance from the car's position to its rear bumper
+  private readonly CAR_HALF_LENGTH = 2;
+
+  // Event callbacks
+  private onObstacleAvoided?: (pattern: ObstaclePatternType, difficulty: number) => void;
+
   // Obstacle patterns
-  private patterns = [
+  private patterns: ObstaclePatternType[] = [
     'single_barrier',
     'double_barrier',
     'wall_gap',
@@ -36,8 +86,10 @@ export class ObstacleManager {
   /**
    * Initialize obstacle manager
    */
-  async initialize(scene: THREE.Scene): Promise<void> {
+  async initialize(scene: THREE.Scene, seed?: number): Promise<void> {
     this.scene = scene;
+    this.rng = new SeededRandom(seed ?? this.fixedSeed ?? MathUtils.generateSeed());
+    this.pickupRng = new SeededRandom(this.rng.getSeed() ^ this.PICKUP_SEED_SALT);
     this.createObstaclePool();
     this.spawnInitialObstacles();
     console.log('Obstacle manager initialized');
@@ -51,7 +103,7 @@ export class ObstacleManager {
     const types: ('barrier' | 'wall' | 'cone')[] = ['barrier', 'wall', 'cone'];
     
     types.forEach(type => {
-      const pool: THREE.Mesh[] = [];
+      const pool: THREE.LOD[] = [];
       for (let i = 0; i < poolSize; i++) {
         const obstacle = ThreeUtils.createObstacleGeometry(type);
         obstacle.visible = false;
@@ -59,23 +111,37 @@ export class ObstacleManager {
       }
       this.obstaclePool.set(type, pool);
     });
+
+    POWER_UP_TYPES.forEach(type => {
+      const pool: THREE.Group[] = [];
+      for (let i = 0; i < 3; i++) {
+        const pickup = ThreeUtils.createPowerUpGeometry(POWER_UP_COLORS[type]);
+        pickup.visible = false;
+        pool.push(pickup);
+      }
+      this.pickupPool.set(type, pool);
+    });
   }
 
   /**
-   * Get obstacle from pool
+   * Get obstacle from pool, growing it when every obstacle is in use so a
+   * seed's course never depends on how quickly old obstacles were cleaned up
    */
-  private getObstacleFromPool(type: 'barrier' | 'wall' | 'cone'): THREE.Mesh | null {
-    const pool = this.obstaclePool.get(type);
-    if (!pool) return null;
+  private getObstacleFromPool(type: 'barrier' | 'wall' | 'cone'): THREE.LOD {
+    const pool = this.obstaclePool.get(type)!;
     
-    const obstacle = pool.find(obj => !obj.visible);
-    return obstacle || null;
+    let obstacle = pool.find(obj => !obj.visible);
+    if (!obstacle) {
+      obstacle = ThreeUtils.createObstacleGeometry(type);
+      pool.push(obstacle);
+    }
+    return obstacle;
   }
 
   /**
    * Return obstacle to pool
    */
-  private returnObstacleToPool(obstacle: THREE.Mesh): void {
+  private returnObstacleToPool(obstacle: THREE.LOD): void {
     obstacle.visible = false;
     obstacle.position.set(0, -100, 0); // Move out of view
   }
@@ -84,8 +150,9 @@ export class ObstacleManager {
    * Spawn initial obstacles
    */
   private spawnInitialObstacles(): void {
-    for (let z = 20; z < 100; z += 15) {
+    for (let z = -20; z > -100; z -= 15) {
       this.spawnObstaclePattern(z);
+      this.lastSpawnZ = z;
     }
   }
 
@@ -94,7 +161,6 @@ export class ObstacleManager {
    */
   update(deltaTime: number, carPosition: THREE.Vector3): void {
     this.timeSinceStart += deltaTime;
-    this.updateDifficulty();
     
     // Remove obstacles that are too far behind
     this.cleanupObstacles(carPosition);
@@ -104,14 +170,36 @@ export class ObstacleManager {
     
     // Update moving obstacles
     this.updateMovingObstacles(deltaTime);
+    this.updatePickups(deltaTime, carPosition);
+    
+    // Report patterns the car has cleared
+    this.checkPassedGroups(carPosition);
+  }
+
+  /**
+   * Fire the avoided callback once for each pattern the car got past without contact
+   */
+  private checkPassedGroups(carPosition: THREE.Vector3): void {
+    const carRearZ = carPosition.z + this.CAR_HALF_LENGTH;
+    
+    this.groups = this.groups.filter(group => {
+      if (carRearZ > group.clearZ) return true;
+      
+      if (!group.wasHit && this.onObstacleAvoided) {
+        this.onObstacleAvoided(group.pattern, group.difficulty);
+      }
+      return false;
+    });
   }
 
   /**
-   * Update difficulty based on time/distance
+   * Update difficulty based on how far the course has been generated
    */
   private updateDifficulty(): void {
-    // Difficulty increases over time
-    this.difficulty = 1 + (this.timeSinceStart / 30); // Increases every 30 seconds
+    // Difficulty follows course distance rather than time, so a seed always
+    // produces the same layout no matter how fast it is driven
+    const courseDistance = Math.max(-this.lastSpawnZ, 0);
+    this.difficulty = 1 + (courseDistance / 750); // Roughly every 30 seconds at top speed
     this.difficulty = Math.min(this.difficulty, 5); // Cap at 5x difficulty
   }
 
@@ -120,7 +208,7 @@ export class ObstacleManager {
    */
   private cleanupObstacles(carPosition: THREE.Vector3): void {
     this.obstacles = this.obstacles.filter(obstacle => {
-      if (obstacle.position.z < carPosition.z + this.despawnDistance) {
+      if (obstacle.position.z > carPosition.z + this.despawnDistance) {
         // Remove from scene
         if (this.scene) {
           this.scene.remove(obstacle.mesh);
@@ -137,11 +225,12 @@ export class ObstacleManager {
    * Spawn obstacles ahead of the car
    */
   private spawnObstacles(carPosition: THREE.Vector3): void {
-    const spawnZ = carPosition.z + this.spawnDistance;
+    const spawnZ = carPosition.z - this.spawnDistance;
     
     // Spawn new obstacles if needed
-    while (this.lastSpawnZ < spawnZ) {
-      this.lastSpawnZ += MathUtils.random(10, 20 / this.difficulty);
+    while (this.lastSpawnZ > spawnZ) {
+      this.updateDifficulty();
+      this.lastSpawnZ -= this.rng.range(10, 20 / this.difficulty);
       this.spawnObstaclePattern(this.lastSpawnZ);
     }
   }
@@ -152,8 +241,8 @@ export class ObstacleManager {
   private spawnObstaclePattern(z: number): void {
     if (!this.scene) return;
 
-    const patternIndex = Math.floor(Math.random() * this.patterns.length);
-    const pattern = this.patterns[patternIndex];
+    const pattern = this.rng.pick(this.patterns);
+    const firstIndex = this.obstacles.length;
     
     switch (pattern) {
       case 'single_barrier':
@@ -175,13 +264,131 @@ export class ObstacleManager {
         this.spawnMovingBarriers(z);
         break;
     }
+
+    // Group what was spawned so the pattern can be scored as a whole
+    const spawned = this.obstacles.slice(firstIndex);
+    if (spawned.length === 0) return;
+
+    spawned.forEach(obstacle => {
+      obstacle.pattern = pattern;
+    });
+    this.groups.push({
+      pattern,
+      difficulty: this.difficulty,
+      obstacles: spawned,
+      clearZ: Math.min(...spawned.map(obstacle => obstacle.boundingBox.min.z)),
+      wasHit: false
+    });
+
+    this.maybeSpawnPickup(z);
+  }
+
+  /**
+   * Occasionally place a power-up on the approach to a pattern
+   */
+  private maybeSpawnPickup(z: number): void {
+    if (this.pickupRng.next() >= this.PICKUP_CHANCE) return;
+
+    const type = this.pickupRng.pick(POWER_UP_TYPES);
+    const x = this.pickupRng.range(-6, 6);
+    this.createPickup(type, x, z + 7);
+  }
+
+  /**
+   * Create pickup at position
+   */
+  private createPickup(type: PowerUpType, x: number, z: number): PickupData | null {
+    if (!this.scene) return null;
+
+    // Grown like the obstacle pool, so every pickup the seed calls for appears
+    const pool = this.pickupPool.get(type)!;
+    let mesh = pool.find(candidate => !candidate.visible);
+    if (!mesh) {
+      mesh = ThreeUtils.createPowerUpGeometry(POWER_UP_COLORS[type]);
+      pool.push(mesh);
+    }
+
+    mesh.position.set(x, 1.2, z);
+    mesh.rotation.set(0, 0, 0);
+    mesh.visible = true;
+    this.scene.add(mesh);
+
+    const pickup: PickupData = {
+      mesh,
+      type,
+      position: mesh.position.clone(),
+      boundingBox: new THREE.Box3().setFromCenterAndSize(mesh.position, this.PICKUP_SIZE),
+      isActive: true
+    };
+
+    this.pickups.push(pickup);
+    return pickup;
+  }
+
+  /**
+   * Spin pickups and drop the ones left behind
+   */
+  private updatePickups(deltaTime: number, carPosition: THREE.Vector3): void {
+    this.pickups = this.pickups.filter(pickup => {
+      if (pickup.position.z > carPosition.z + this.despawnDistance) {
+        this.releasePickup(pickup);
+        return false;
+      }
+
+      pickup.mesh.rotation.y += deltaTime * 2;
+      return true;
+    });
+  }
+
+  /**
+   * Pull pickups within a radius toward the car (magnet power-up)
+   */
+  attractPickups(carPosition: THREE.Vector3, radius: number, pullSpeed: number, deltaTime: number): void {
+    const toCar = new THREE.Vector3();
+
+    this.pickups.forEach(pickup => {
+      toCar.set(carPosition.x - pickup.position.x, 0, carPosition.z - pickup.position.z);
+      const distance = toCar.length();
+      if (distance > radius || distance < 0.01) return;
+
+      toCar.multiplyScalar(Math.min(pullSpeed * deltaTime, distance) / distance);
+      pickup.position.add(toCar);
+      pickup.mesh.position.copy(pickup.position);
+      pickup.boundingBox.setFromCenterAndSize(pickup.position, this.PICKUP_SIZE);
+    });
+  }
+
+  /**
+   * Remove a collected pickup
+   */
+  removePickup(pickup: PickupData): void {
+    const index = this.pickups.indexOf(pickup);
+    if (index === -1) return;
+
+    this.pickups.splice(index, 1);
+    this.releasePickup(pickup);
+  }
+
+  private releasePickup(pickup: PickupData): void {
+    pickup.isActive = false;
+    pickup.mesh.visible = false;
+    if (this.scene) {
+      this.scene.remove(pickup.mesh);
+    }
+  }
+
+  /**
+   * Get all active pickups
+   */
+  getPickups(): PickupData[] {
+    return this.pickups.filter(pickup => pickup.isActive);
   }
 
   /**
    * Spawn single barrier pattern
    */
   private spawnSingleBarrier(z: number): void {
-    const x = MathUtils.random(-6, 6);
+    const x = this.rng.range(-6, 6);
     this.createObstacle('barrier', x, z);
   }
 
@@ -189,8 +396,8 @@ export class ObstacleManager {
    * Spawn double barrier pattern
    */
   private spawnDoubleBarrier(z: number): void {
-    const gap = MathUtils.random(4, 6);
-    const centerX = MathUtils.random(-3, 3);
+    const gap = this.rng.range(4, 6);
+    const centerX = this.rng.range(-3, 3);
     
     this.createObstacle('barrier', centerX - gap / 2, z);
     this.createObstacle('barrier', centerX + gap / 2, z);
@@ -200,22 +407,24 @@ export class ObstacleManager {
    * Spawn wall with gap pattern
    */
   private spawnWallGap(z: number): void {
-    const gapCenter = MathUtils.random(-4, 4);
-    const gapWidth = MathUtils.random(3, 5);
+    const gapCenter = this.rng.range(-4, 4);
+    const gapWidth = this.rng.range(3, 5);
     
     // Left wall
-    if (gapCenter - gapWidth / 2 > -8) {
+    if (gapCenter - gapWidth / 2 > -DRIVABLE_HALF_WIDTH) {
       const leftWall = this.createObstacle('wall', (gapCenter - gapWidth / 2 - 4), z);
       if (leftWall) {
         leftWall.mesh.scale.x = 0.5; // Make it shorter
+        leftWall.boundingBox.setFromObject(leftWall.mesh);
       }
     }
     
     // Right wall
-    if (gapCenter + gapWidth / 2 < 8) {
+    if (gapCenter + gapWidth / 2 < DRIVABLE_HALF_WIDTH) {
       const rightWall = this.createObstacle('wall', (gapCenter + gapWidth / 2 + 4), z);
       if (rightWall) {
         rightWall.mesh.scale.x = 0.5; // Make it shorter
+        rightWall.boundingBox.setFromObject(rightWall.mesh);
       }
     }
   }
@@ -228,8 +437,8 @@ export class ObstacleManager {
     const spacing = 8;
     
     for (let i = 0; i < numCones; i++) {
-      const x = (i % 2 === 0 ? -3 : 3) + MathUtils.random(-1, 1);
-      this.createObstacle('cone', x, z + i * spacing);
+      const x = (i % 2 === 0 ? -3 : 3) + this.rng.range(-1, 1);
+      this.createObstacle('cone', x, z - i * spacing);
     }
   }
 
@@ -241,25 +450,29 @@ export class ObstacleManager {
     
     this.createObstacle('barrier', -passageWidth / 2 - 1, z);
     this.createObstacle('barrier', passageWidth / 2 + 1, z);
-    this.createObstacle('barrier', -passageWidth / 2 - 1, z + 5);
-    this.createObstacle('barrier', passageWidth / 2 + 1, z + 5);
+    this.createObstacle('barrier', -passageWidth / 2 - 1, z - 5);
+    this.createObstacle('barrier', passageWidth / 2 + 1, z - 5);
   }
 
   /**
    * Spawn moving barriers pattern
    */
   private spawnMovingBarriers(z: number): void {
+    // Draw speeds up front so RNG consumption never depends on pool availability
+    const leftSpeed = this.rng.range(2, 4);
+    const rightSpeed = this.rng.range(2, 4);
+    
     // Create barriers that move side to side
     const leftBarrier = this.createObstacle('barrier', -4, z);
     const rightBarrier = this.createObstacle('barrier', 4, z);
     
     if (leftBarrier) {
-      leftBarrier.speed = MathUtils.random(2, 4);
+      leftBarrier.speed = leftSpeed;
       leftBarrier.direction = new THREE.Vector3(1, 0, 0);
     }
     
     if (rightBarrier) {
-      rightBarrier.speed = MathUtils.random(2, 4);
+      rightBarrier.speed = rightSpeed;
       rightBarrier.direction = new THREE.Vector3(-1, 0, 0);
     }
   }
@@ -275,9 +488,8 @@ export class ObstacleManager {
     if (!this.scene) return null;
 
     const obstacle = this.getObstacleFromPool(type);
-    if (!obstacle) return null;
-
     obstacle.position.set(x, type === 'cone' ? 0.75 : 1, z);
+    obstacle.scale.set(1, 1, 1); // Pooled meshes may still carry a pattern's scaling
     obstacle.visible = true;
     
     this.scene.add(obstacle);
@@ -316,6 +528,33 @@ export class ObstacleManager {
     });
   }
 
+  /**
+   * Record a collision with an obstacle: its pattern no longer counts as avoided
+   * and the obstacle is removed
+   */
+  registerHit(obstacle: ObstacleData): void {
+    const group = this.groups.find(candidate => candidate.obstacles.includes(obstacle));
+    if (group) {
+      group.wasHit = true;
+    }
+    this.removeObstacle(obstacle);
+  }
+
+  /**
+   * Remove a single obstacle and return it to the pool
+   */
+  removeObstacle(obstacle: ObstacleData): void {
+    const index = this.obstacles.indexOf(obstacle);
+    if (index === -1) return;
+
+    this.obstacles.splice(index, 1);
+    obstacle.isActive = false;
+    if (this.scene) {
+      this.scene.remove(obstacle.mesh);
+    }
+    this.returnObstacleToPool(obstacle.mesh);
+  }
+
   /**
    * Get all active obstacles
    */
@@ -334,9 +573,23 @@ export class ObstacleManager {
   }
 
   /**
-   * Reset obstacle manager
+   * Fix the seed used by every following reset (null picks a new seed per run)
+   */
+  setSeed(seed: number | null): void {
+    this.fixedSeed = seed === null ? null : seed >>> 0;
+  }
+
+  /**
+   * Get the seed of the current course
+   */
+  getSeed(): number {
+    return this.rng.getSeed();
+  }
+
+  /**
+   * Reset obstacle manager, optionally starting a specific seeded course
    */
-  reset(): void {
+  reset(seed?: number): void {
     // Clean up all obstacles
     this.obstacles.forEach(obstacle => {
       if (this.scene) {
@@ -345,15 +598,25 @@ export class ObstacleManager {
       this.returnObstacleToPool(obstacle.mesh);
     });
     
+    this.pickups.forEach(pickup => this.releasePickup(pickup));
+    
     this.obstacles = [];
-    this.lastSpawnZ = 50;
+    this.groups = [];
+    this.pickups = [];
+    this.lastSpawnZ = 0;
     this.difficulty = 1;
     this.timeSinceStart = 0;
+    this.rng = new SeededRandom(seed ?? this.fixedSeed ?? MathUtils.generateSeed());
+    this.pickupRng = new SeededRandom(this.rng.getSeed() ^ this.PICKUP_SEED_SALT);
     
     // Spawn initial obstacles again
     this.spawnInitialObstacles();
     
-    console.log('Obstacle manager reset');
+    console.log(`Obstacle manager reset (seed ${this.rng.getSeed()})`);
+  }
+
+  setObstacleAvoidedCallback(callback: (pattern: ObstaclePatternType, difficulty: number) => void): void {
+    this.onObstacleAvoided = callback;
   }
 
   /**
@@ -389,8 +652,18 @@ export class ObstacleManager {
       });
     });
     
+    this.pickups.forEach(pickup => this.releasePickup(pickup));
+    this.pickupPool.forEach(pool => {
+      pool.forEach(pickup => {
+        ThreeUtils.dispose(pickup);
+      });
+    });
+    
     this.obstacles = [];
+    this.groups = [];
+    this.pickups = [];
     this.obstaclePool.clear();
+    this.pickupPool.clear();
     
     console.log('Obstacle manager disposed');
   }
@@ -0,0 +1,225 @@
+// Post-processing pipeline for the 3D car racing game
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { FXAAPass } from 'three/examples/jsm/postprocessing/FXAAPass.js';
+import { SMAAPass } from 'three/examples/jsm/postprocessing/SMAAPass.js';
+import { VignetteShader } from 'three/examples/jsm/shaders/VignetteShader.js';
+import { GraphicsQuality } from './GraphicsQuality';
+import { MathUtils } from '../utils/math-utils';
+
+export interface PostEffectSettings {
+  bloom: boolean; // Glow around neon, markings, lamps and headlights
+  motionBlur: boolean; // Radial streaking toward the screen edges at speed
+  vignette: boolean;
+  antiAliasing: boolean; // FXAA, or SMAA on ultra
+}
+
+export const DEFAULT_POST_EFFECTS: PostEffectSettings = {
+  bloom: true,
+  motionBlur: true,
+  vignette: true,
+  antiAliasing: true
+};
+
+// What each quality level can afford; low skips the composer and draws straight to the screen
+interface PipelineQuality {
+  enabled: boolean;
+  bloomScale: number; // Bloom resolution relative to the screen
+  motionBlurSamples: number; // 0 disables motion blur
+  smaa: boolean; // SMAA instead of FXAA
+}
+
+const PIPELINE_QUALITY: Record<GraphicsQuality, PipelineQuality> = {
+  low: { enabled: false, bloomScale: 0, motionBlurSamples: 0, smaa: false },
+  medium: { enabled: true, bloomScale: 0.5, motionBlurSamples: 0, smaa: false },
+  high: { enabled: true, bloomScale: 1, motionBlurSamples: 8, smaa: false },
+  ultra: { enabled: true, bloomScale: 1, motionBlurSamples: 12, smaa: true }
+};
+
+// Blurs along lines toward a vanishing point; the centre, where the player looks, stays sharp
+const SpeedBlurShader = {
+  name: 'SpeedBlurShader',
+  defines: { SAMPLES: 8 },
+  uniforms: {
+    tDiffuse: { value: null },
+    strength: { value: 0 },
+    center: { value: new THREE.Vector2(0.5, 0.45) }
+  },
+  vertexShader: /* glsl */ `
+    varying vec2 vUv;
+
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: /* glsl */ `
+    uniform sampler2D tDiffuse;
+    uniform float strength;
+    uniform vec2 center;
+    varying vec2 vUv;
+
+    void main() {
+      vec2 toCenter = center - vUv;
+      float falloff = smoothstep(0.1, 0.6, length(toCenter));
+      vec2 offset = toCenter * strength * falloff / float(SAMPLES);
+
+      vec4 color = vec4(0.0);
+      for (int i = 0; i < SAMPLES; i++) {
+        color += texture2D(tDiffuse, vUv + offset * float(i));
+      }
+      gl_FragColor = color / float(SAMPLES);
+    }
+  `
+};
+
+/**
+ * EffectComposer chain: scene, bloom, speed blur and vignette in linear
+ * HDR, then tone mapping and anti-aliasing on the final image. Effects are
+ * toggled individually and scaled back or skipped on lower quality
+ */
+export class PostProcessor {
+  private readonly BLOOM_STRENGTH = 0.6;
+  private readonly BLOOM_RADIUS = 0.4;
+  private readonly BLOOM_THRESHOLD = 0.85;
+  private readonly MAX_BLUR = 0.08; // Share of the distance to the centre smeared at top speed
+  private readonly VIGNETTE_DARKNESS = 1.1;
+
+  private renderer: THREE.WebGLRenderer;
+  private scene: THREE.Scene;
+  private camera: THREE.Camera;
+  private composer: EffectComposer;
+  private bloomPass: UnrealBloomPass;
+  private speedBlurPass: ShaderPass;
+  private vignettePass: ShaderPass;
+  private fxaaPass: FXAAPass;
+  private smaaPass: SMAAPass;
+
+  private enabled: boolean = true;
+  private effects: PostEffectSettings = { ...DEFAULT_POST_EFFECTS };
+  private quality: PipelineQuality = PIPELINE_QUALITY.high;
+  private size = new THREE.Vector2();
+
+  constructor(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera) {
+    this.renderer = renderer;
+    this.scene = scene;
+    this.camera = camera;
+    renderer.getSize(this.size);
+
+    this.composer = new EffectComposer(renderer);
+    this.composer.addPass(new RenderPass(scene, camera));
+
+    this.bloomPass = new UnrealBloomPass(this.size.clone(), this.BLOOM_STRENGTH, this.BLOOM_RADIUS, this.BLOOM_THRESHOLD);
+    this.composer.addPass(this.bloomPass);
+
+    this.speedBlurPass = new ShaderPass(SpeedBlurShader);
+    this.composer.addPass(this.speedBlurPass);
+
+    this.vignettePass = new ShaderPass(VignetteShader);
+    this.vignettePass.uniforms.darkness.value = this.VIGNETTE_DARKNESS;
+    this.composer.addPass(this.vignettePass);
+
+    // Tone mapping and sRGB output; anti-aliasing works on the final image
+    this.composer.addPass(new OutputPass());
+    this.fxaaPass = new FXAAPass();
+    this.composer.addPass(this.fxaaPass);
+    this.smaaPass = new SMAAPass();
+    this.composer.addPass(this.smaaPass);
+
+    this.setSize(this.size.x, this.size.y);
+    this.updatePasses();
+  }
+
+  /**
+   * Turn the whole pipeline on or off (the postProcessing setting)
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  /**
+   * Choose which effects run
+   */
+  setEffects(effects: PostEffectSettings): void {
+    this.effects = { ...effects };
+    this.updatePasses();
+  }
+
+  /**
+   * Scale the pipeline to a graphics quality level
+   */
+  setQuality(quality: GraphicsQuality): void {
+    const previous = this.quality;
+    this.quality = PIPELINE_QUALITY[quality];
+
+    const samples = Math.max(this.quality.motionBlurSamples, 1);
+    if (this.speedBlurPass.material.defines.SAMPLES !== samples) {
+      this.speedBlurPass.material.defines.SAMPLES = samples;
+      this.speedBlurPass.material.needsUpdate = true;
+    }
+    if (this.quality.bloomScale !== previous.bloomScale) {
+      this.setSize(this.size.x, this.size.y);
+    }
+    this.updatePasses();
+  }
+
+  private updatePasses(): void {
+    this.bloomPass.enabled = this.effects.bloom && this.quality.bloomScale > 0;
+    this.speedBlurPass.enabled = this.effects.motionBlur && this.quality.motionBlurSamples > 0;
+    this.vignettePass.enabled = this.effects.vignette;
+    this.fxaaPass.enabled = this.effects.antiAliasing && !this.quality.smaa;
+    this.smaaPass.enabled = this.effects.antiAliasing && this.quality.smaa;
+  }
+
+  /**
+   * Check whether frames go through the composer at all
+   */
+  isActive(): boolean {
+    return this.enabled && this.quality.enabled;
+  }
+
+  /**
+   * Resize the render targets (CSS pixels; the renderer's pixel ratio is applied)
+   */
+  setSize(width: number, height: number): void {
+    this.size.set(width, height);
+    this.composer.setPixelRatio(this.renderer.getPixelRatio());
+    this.composer.setSize(width, height);
+
+    // Bloom is soft anyway, so lower qualities run it at reduced resolution
+    const scale = this.renderer.getPixelRatio() * Math.max(this.quality.bloomScale, 0.5);
+    this.bloomPass.setSize(Math.round(width * scale), Math.round(height * scale));
+  }
+
+  /**
+   * Drive the speed blur from the car's normalized speed (above 1 while boosting)
+   */
+  setSpeed(normalizedSpeed: number): void {
+    const amount = MathUtils.smoothStep(0.5, 1.4, normalizedSpeed);
+    this.speedBlurPass.uniforms.strength.value = amount * this.MAX_BLUR;
+  }
+
+  /**
+   * Draw a frame, through the composer when it is active
+   */
+  render(deltaTime?: number): void {
+    if (this.isActive()) {
+      this.composer.render(deltaTime);
+    } else {
+      this.renderer.render(this.scene, this.camera);
+    }
+  }
+
+  dispose(): void {
+    this.bloomPass.dispose();
+    this.fxaaPass.dispose();
+    this.smaaPass.dispose();
+    this.speedBlurPass.dispose();
+    this.vignettePass.dispose();
+    this.composer.dispose();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,96 @@
+// Power-up effect timing system for the 3D car racing game
+export type PowerUpType = 'repair' | 'shield' | 'multiplier' | 'slow_motion' | 'magnet';
+
+export interface ActivePowerUp {
+  type: PowerUpType;
+  remaining: number; // seconds
+  duration: number; // seconds
+}
+
+export const POWER_UP_TYPES: PowerUpType[] = ['repair', 'shield', 'multiplier', 'slow_motion', 'magnet'];
+
+// Effect lengths in seconds (0 = applied instantly)
+export const POWER_UP_DURATIONS: Record<PowerUpType, number> = {
+  repair: 0,
+  shield: 8,
+  multiplier: 10,
+  slow_motion: 5,
+  magnet: 10
+};
+
+export const POWER_UP_COLORS: Record<PowerUpType, number> = {
+  repair: 0x4caf50,
+  shield: 0x29b6f6,
+  multiplier: 0xffd600,
+  slow_motion: 0xab47bc,
+  magnet: 0xef5350
+};
+
+// Effect strengths
+export const REPAIR_AMOUNT = 40;
+export const SCORE_MULTIPLIER = 2;
+export const SLOW_MOTION_TIME_SCALE = 0.5;
+export const MAGNET_RADIUS = 15;
+export const MAGNET_PULL_SPEED = 20; // units per second
+
+export class PowerUpManager {
+  private active: Map<PowerUpType, ActivePowerUp> = new Map();
+
+  /**
+   * Start (or refresh) a timed power-up; instant ones are not tracked
+   */
+  activate(type: PowerUpType): void {
+    const duration = POWER_UP_DURATIONS[type];
+    if (duration <= 0) return;
+
+    // Picking up the same power-up again restarts its timer
+    this.active.set(type, { type, remaining: duration, duration });
+  }
+
+  /**
+   * Count down active power-ups; returns the ones that expired this update
+   */
+  update(deltaTime: number): PowerUpType[] {
+    const expired: PowerUpType[] = [];
+
+    this.active.forEach((powerUp, type) => {
+      powerUp.remaining -= deltaTime;
+      if (powerUp.remaining <= 0) {
+        this.active.delete(type);
+        expired.push(type);
+      }
+    });
+
+    return expired;
+  }
+
+  /**
+   * Check if a timed power-up is running
+   */
+  isActive(type: PowerUpType): boolean {
+    return this.active.has(type);
+  }
+
+  /**
+   * Get seconds left on a power-up (0 when inactive)
+   */
+  getRemaining(type: PowerUpType): number {
+    return this.active.get(type)?.remaining ?? 0;
+  }
+
+  /**
+   * Get a snapshot of all running power-ups in a stable order
+   */
+  getActivePowerUps(): ActivePowerUp[] {
+    return POWER_UP_TYPES
+      .filter(type => this.active.has(type))
+      .map(type => ({ ...this.active.get(type)! }));
+  }
+
+  /**
+   * Clear all effects for a new run
+   */
+  reset(): void {
+    this.active.clear();
+  }
+}
\ No newline at end of file
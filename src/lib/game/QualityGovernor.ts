@@ -0,0 +1,174 @@
+// Adaptive quality governor for the 3D car racing game
+
+export type FrameRateTarget = 30 | 60 | 120;
+
+export const FRAME_RATE_TARGETS: FrameRateTarget[] = [30, 60, 120];
+
+export const DEFAULT_FRAME_RATE_TARGET: FrameRateTarget = 60;
+
+// How far below the graphics preset a step renders
+export interface QualityStep {
+  resolution: number; // Pixel ratio multiplier
+  shadows: number; // Shadow map size multiplier
+  scenery: number; // Scenery density multiplier
+}
+
+// Resolution goes first since it is the cheapest to lose; scenery goes last
+const QUALITY_STEPS: QualityStep[] = [
+  { resolution: 1, shadows: 1, scenery: 1 },
+  { resolution: 0.85, shadows: 1, scenery: 1 },
+  { resolution: 0.85, shadows: 0.5, scenery: 1 },
+  { resolution: 0.75, shadows: 0.5, scenery: 0.75 },
+  { resolution: 0.65, shadows: 0.25, scenery: 0.75 },
+  { resolution: 0.5, shadows: 0.25, scenery: 0.5 }
+];
+
+export interface QualityReport {
+  enabled: boolean;
+  target: FrameRateTarget;
+  fps: number; // Smoothed over about a second
+  step: number; // 0 = the preset's full quality
+  steps: number;
+  quality: QualityStep;
+  raiseDelay: number; // Seconds on target before the next step up is tried
+  decision: string; // The last change and why it was made
+}
+
+/**
+ * Watches frame time and steps resolution, shadow resolution and scenery
+ * density down when the target frame rate is missed and back up when there
+ * is room. Hysteresis keeps it steady: a dead band between the two
+ * thresholds, longer waits to raise than to lower, and a step up that
+ * cannot hold doubles the wait before the next try
+ */
+export class QualityGovernor {
+  private readonly SMOOTHING = 1; // Seconds the frame time average looks back
+  private readonly LOWER_BELOW = 0.9; // Share of the target that counts as too slow
+  private readonly RAISE_ABOVE = 0.97; // Share of the target that counts as holding it
+  private readonly LOWER_DELAY = 1.5; // Seconds too slow before stepping down
+  private readonly RAISE_DELAY = 4; // Seconds on target before stepping up
+  private readonly MAX_RAISE_DELAY = 64;
+  private readonly FAILED_RAISE_WINDOW = 8; // Stepping down this soon after a step up means it failed
+  private readonly SETTLE_TIME = 1; // Seconds ignored after a change while buffers are reallocated
+
+  private enabled: boolean = true;
+  private target: FrameRateTarget = DEFAULT_FRAME_RATE_TARGET;
+  private step: number = 0;
+  private averageFrameTime: number = 1 / DEFAULT_FRAME_RATE_TARGET;
+  private slowTime: number = 0;
+  private steadyTime: number = 0;
+  private settleTime: number = 0;
+  private sinceRaise: number = Infinity;
+  private raiseDelay: number = this.RAISE_DELAY;
+  private decision: string = 'Holding full quality';
+
+  private onChange?: (quality: QualityStep) => void;
+
+  /**
+   * Turn the governor on or off; turning it off returns to full quality
+   */
+  setEnabled(enabled: boolean): void {
+    if (enabled === this.enabled) return;
+
+    this.enabled = enabled;
+    this.step = 0;
+    this.decision = enabled ? 'Holding full quality' : 'Off';
+    this.resetTimers();
+  }
+
+  /**
+   * Aim for a new frame rate, keeping the current step as the starting point
+   */
+  setTarget(target: FrameRateTarget): void {
+    if (target === this.target) return;
+
+    this.target = target;
+    this.averageFrameTime = 1 / target;
+    this.raiseDelay = this.RAISE_DELAY;
+    this.resetTimers();
+  }
+
+  private resetTimers(): void {
+    this.slowTime = 0;
+    this.steadyTime = 0;
+    this.settleTime = 0;
+    this.sinceRaise = Infinity;
+  }
+
+  /**
+   * Feed one frame's duration in seconds; steps taken here are reported to the change callback
+   */
+  update(frameTime: number): void {
+    if (frameTime <= 0) return;
+
+    // The average keeps running while off so the overlay still reports it
+    const blend = 1 - Math.exp(-frameTime / this.SMOOTHING);
+    this.averageFrameTime += (frameTime - this.averageFrameTime) * blend;
+    if (!this.enabled) return;
+
+    // A step up that holds through the window earns quick retries again
+    if (this.sinceRaise < this.FAILED_RAISE_WINDOW) {
+      this.sinceRaise += frameTime;
+      if (this.sinceRaise >= this.FAILED_RAISE_WINDOW) {
+        this.raiseDelay = this.RAISE_DELAY;
+      }
+    }
+
+    if (this.settleTime > 0) {
+      this.settleTime -= frameTime;
+      return;
+    }
+
+    // Between the thresholds neither timer runs
+    const fps = 1 / this.averageFrameTime;
+    this.slowTime = fps < this.target * this.LOWER_BELOW ? this.slowTime + frameTime : 0;
+    this.steadyTime = fps >= this.target * this.RAISE_ABOVE ? this.steadyTime + frameTime : 0;
+
+    if (this.slowTime >= this.LOWER_DELAY && this.step < QUALITY_STEPS.length - 1) {
+      if (this.sinceRaise < this.FAILED_RAISE_WINDOW) {
+        this.raiseDelay = Math.min(this.raiseDelay * 2, this.MAX_RAISE_DELAY);
+      }
+      this.sinceRaise = Infinity;
+      this.setStep(this.step + 1, `Lowered at ${Math.round(fps)} FPS`);
+    } else if (this.steadyTime >= this.raiseDelay && this.step > 0) {
+      this.sinceRaise = 0;
+      this.setStep(this.step - 1, `Raised after ${Math.round(this.steadyTime)}s at ${Math.round(fps)} FPS`);
+    }
+  }
+
+  private setStep(step: number, decision: string): void {
+    this.step = step;
+    this.decision = decision;
+    this.slowTime = 0;
+    this.steadyTime = 0;
+    this.settleTime = this.SETTLE_TIME;
+
+    if (this.onChange) {
+      this.onChange(this.getQuality());
+    }
+  }
+
+  /**
+   * The current step's multipliers on the graphics preset
+   */
+  getQuality(): QualityStep {
+    return QUALITY_STEPS[this.enabled ? this.step : 0];
+  }
+
+  getReport(): QualityReport {
+    return {
+      enabled: this.enabled,
+      target: this.target,
+      fps: Math.round(1 / this.averageFrameTime),
+      step: this.step,
+      steps: QUALITY_STEPS.length,
+      quality: this.getQuality(),
+      raiseDelay: this.raiseDelay,
+      decision: this.decision
+    };
+  }
+
+  setChangeCallback(callback: (quality: QualityStep) => void): void {
+    this.onChange = callback;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,284 @@
+// Input recording and replay system for the 3D car racing game
+import type { GameStats } from './Simulation';
+import type { PhysicsModel } from './VehicleSpec';
+import { CarId, CAR_ROSTER, DEFAULT_CAR_ID } from './CarRoster';
+import { Livery, parseLivery } from './Livery';
+import { WeatherMode, DEFAULT_WEATHER_MODE, isWeatherMode } from './Weather';
+
+export interface ReplayInputEvent {
+  tick: number; // Simulation tick the event is applied before
+  code: string; // KeyboardEvent.code
+  pressed: boolean;
+}
+
+export interface ReplayData {
+  version: number;
+  seed: number;
+  timestep: number; // Seconds per simulation step
+  sensitivity: number;
+  physicsModel: PhysicsModel;
+  carId: CarId;
+  livery: Livery | null; // Cosmetic only; null = factory paint
+  weather: WeatherMode;
+  events: ReplayInputEvent[];
+  endTick: number;
+  finalStats: GameStats | null;
+  recordedAt: number; // Unix time in ms
+}
+
+/**
+ * Compact on-disk format: key codes are stored once in a table and events
+ * become [tickDelta, keyIndex, pressed] triples
+ */
+interface ReplayFile {
+  v: number;
+  seed: number;
+  hz: number;
+  sens: number;
+  phys: PhysicsModel;
+  car: CarId;
+  paint: Livery | null;
+  wx: WeatherMode;
+  keys: string[];
+  e: [number, number, 0 | 1][];
+  end: number;
+  stats: GameStats | null;
+  at: number;
+}
+
+export const REPLAY_FORMAT_VERSION = 2;
+export const REPLAY_FILE_EXTENSION = '.replay.json';
+
+export class ReplayRecorder {
+  private seed: number = 0;
+  private timestep: number = 0;
+  private sensitivity: number = 1;
+  private physicsModel: PhysicsModel = 'arcade';
+  private carId: CarId = DEFAULT_CAR_ID;
+  private livery: Livery | null = null;
+  private weather: WeatherMode = DEFAULT_WEATHER_MODE;
+  private events: ReplayInputEvent[] = [];
+  private recording: boolean = false;
+
+  /**
+   * Begin a new recording for a run on the given seed
+   */
+  start(
+    seed: number,
+    timestep: number,
+    sensitivity: number,
+    physicsModel: PhysicsModel,
+    carId: CarId,
+    livery: Livery | null,
+    weather: WeatherMode
+  ): void {
+    this.seed = seed;
+    this.timestep = timestep;
+    this.sensitivity = sensitivity;
+    this.physicsModel = physicsModel;
+    this.carId = carId;
+    this.livery = livery;
+    this.weather = weather;
+    this.events = [];
+    this.recording = true;
+  }
+
+  /**
+   * Record a key state change at the given tick
+   */
+  record(tick: number, code: string, pressed: boolean): void {
+    if (!this.recording) return;
+    this.events.push({ tick, code, pressed });
+  }
+
+  /**
+   * Stop recording and return the finished replay
+   */
+  finish(endTick: number, finalStats: GameStats | null): ReplayData {
+    this.recording = false;
+    return {
+      version: REPLAY_FORMAT_VERSION,
+      seed: this.seed,
+      timestep: this.timestep,
+      sensitivity: this.sensitivity,
+      physicsModel: this.physicsModel,
+      carId: this.carId,
+      livery: this.livery,
+      weather: this.weather,
+      events: [...this.events],
+      endTick,
+      finalStats,
+      recordedAt: Date.now()
+    };
+  }
+
+  /**
+   * Check if currently recording
+   */
+  isRecording(): boolean {
+    return this.recording;
+  }
+}
+
+export class ReplayPlayer {
+  private replay: ReplayData;
+  private nextEventIndex: number = 0;
+
+  constructor(replay: ReplayData) {
+    this.replay = replay;
+  }
+
+  /**
+   * Get all input events scheduled before the given tick is simulated
+   */
+  consumeEvents(tick: number): ReplayInputEvent[] {
+    const events: ReplayInputEvent[] = [];
+    const all = this.replay.events;
+
+    while (this.nextEventIndex < all.length && all[this.nextEventIndex].tick <= tick) {
+      events.push(all[this.nextEventIndex]);
+      this.nextEventIndex++;
+    }
+
+    return events;
+  }
+
+  /**
+   * Check if playback has reached the recorded end of the run
+   */
+  isFinished(tick: number): boolean {
+    return tick >= this.replay.endTick;
+  }
+
+  /**
+   * Get progress through the replay (0-1)
+   */
+  getProgress(tick: number): number {
+    return this.replay.endTick > 0 ? Math.min(tick / this.replay.endTick, 1) : 1;
+  }
+
+  /**
+   * Get the replay being played
+   */
+  getReplay(): ReplayData {
+    return this.replay;
+  }
+}
+
+export class ReplaySystem {
+  /**
+   * Serialize a replay into its compact JSON file format
+   */
+  static encode(replay: ReplayData): string {
+    const keys: string[] = [];
+    const keyIndex = new Map<string, number>();
+    let lastTick = 0;
+
+    const events = replay.events.map(event => {
+      let index = keyIndex.get(event.code);
+      if (index === undefined) {
+        index = keys.length;
+        keys.push(event.code);
+        keyIndex.set(event.code, index);
+      }
+
+      const delta = event.tick - lastTick;
+      lastTick = event.tick;
+      return [delta, index, event.pressed ? 1 : 0] as [number, number, 0 | 1];
+    });
+
+    const file: ReplayFile = {
+      v: replay.version,
+      seed: replay.seed,
+      hz: Math.round(1 / replay.timestep),
+      sens: replay.sensitivity,
+      phys: replay.physicsModel,
+      car: replay.carId,
+      paint: replay.livery,
+      wx: replay.weather,
+      keys,
+      e: events,
+      end: replay.endTick,
+      stats: replay.finalStats,
+      at: replay.recordedAt
+    };
+
+    return JSON.stringify(file);
+  }
+
+  /**
+   * Parse a replay file; throws if the content is not a valid replay
+   */
+  static decode(text: string): ReplayData {
+    let file: ReplayFile;
+    try {
+      file = JSON.parse(text);
+    } catch {
+      throw new Error('Invalid replay file: not valid JSON');
+    }
+
+    if (!file || typeof file !== 'object') {
+      throw new Error('Invalid replay file: unexpected content');
+    }
+    if (file.v !== REPLAY_FORMAT_VERSION) {
+      throw new Error(`Unsupported replay version: ${file.v}`);
+    }
+    if (!Number.isInteger(file.seed) || !Number.isFinite(file.hz) || file.hz <= 0 ||
+        !Array.isArray(file.keys) || !Array.isArray(file.e) || !Number.isInteger(file.end)) {
+      throw new Error('Invalid replay file: missing or malformed fields');
+    }
+    if (typeof file.sens !== 'number' || (file.phys !== 'arcade' && file.phys !== 'simulation') ||
+        !CAR_ROSTER.some(car => car.id === file.car) || !isWeatherMode(file.wx)) {
+      throw new Error('Invalid replay file: missing or malformed run settings');
+    }
+
+    let tick = 0;
+    const events = file.e.map(([delta, index, pressed]) => {
+      const code = file.keys[index];
+      if (!Number.isInteger(delta) || delta < 0 || typeof code !== 'string') {
+        throw new Error('Invalid replay file: malformed input event');
+      }
+      tick += delta;
+      return { tick, code, pressed: pressed === 1 };
+    });
+
+    return {
+      version: file.v,
+      seed: file.seed >>> 0,
+      timestep: 1 / file.hz,
+      sensitivity: file.sens,
+      physicsModel: file.phys,
+      carId: file.car,
+      livery: parseLivery(file.paint),
+      weather: file.wx,
+      events,
+      endTick: file.end,
+      finalStats: file.stats ?? null,
+      recordedAt: typeof file.at === 'number' ? file.at : 0
+    };
+  }
+
+  /**
+   * Read and parse a replay file chosen by the user
+   */
+  static async readFile(file: File): Promise<ReplayData> {
+    return ReplaySystem.decode(await file.text());
+  }
+
+  /**
+   * Offer a replay as a file download (browser only)
+   */
+  static download(replay: ReplayData, filename?: string): void {
+    if (typeof document === 'undefined') return;
+
+    const blob = new Blob([ReplaySystem.encode(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename ?? `run-${replay.seed}-${replay.recordedAt}${REPLAY_FILE_EXTENSION}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,275 @@
+// Procedural road layout for the 3D car racing game
+import * as THREE from 'three';
+import { MathUtils, SeededRandom } from '../utils/math-utils';
+
+export const ROAD_HALF_WIDTH = 10;
+export const DRIVABLE_HALF_WIDTH = 8; // Furthest the car may stray from the centre line
+
+export interface RoadFrame {
+  position: THREE.Vector3; // Centre line, world space
+  tangent: THREE.Vector3; // Forward along the road (including slope)
+  right: THREE.Vector3; // Across the banked surface
+  up: THREE.Vector3; // Surface normal
+  heading: number; // Yaw of the centre line (0 = -Z, positive turns left)
+}
+
+interface RoadNode {
+  curvature: number; // 1/radius, positive turns left
+  elevation: number;
+  heading: number; // Heading reached at this node
+}
+
+/**
+ * Gameplay runs in straight "track space" (x across the road, -z along it).
+ * RoadPath maps that onto a curved, hilly centre line: seeded nodes every
+ * NODE_SPACING are joined by smooth spline blends of curvature and elevation,
+ * and the heading is integrated into world positions as the road is streamed
+ */
+export class RoadPath {
+  static readonly NODE_SPACING = 80;
+  private static readonly SAMPLE_SPACING = 2;
+  private static readonly STRAIGHT_NODES = 3; // Flat, straight run-up from the start line
+  private static readonly STRAIGHT_CHANCE = 0.35;
+  private static readonly MIN_CURVATURE = 1 / 400;
+  private static readonly MAX_CURVATURE = 1 / 120;
+  private static readonly MAX_HEADING = 1.2; // Beyond this turns swing back, so the road never loops
+  private static readonly MAX_ELEVATION = 20;
+  private static readonly MAX_ELEVATION_STEP = 8;
+  private static readonly BANK_PER_CURVATURE = 25;
+  private static readonly MAX_BANK = 0.2; // radians
+  private static readonly SEED_SALT = 0x5bd1e995;
+
+  private seed: number = 0;
+  private rng: SeededRandom = new SeededRandom(0);
+  private nodes: RoadNode[] = [];
+  private firstNode: number = 0; // Index of nodes[0] once old nodes are trimmed
+
+  // Integrated centre line, one sample every SAMPLE_SPACING from sampleStart
+  private sampleStart: number = 0;
+  private headings: number[] = [];
+  private xs: number[] = [];
+  private zs: number[] = [];
+
+  // Scratch objects for frame math
+  private scratchFrame: RoadFrame = RoadPath.createFrame();
+  private scratchMatrix = new THREE.Matrix4();
+  private scratchBack = new THREE.Vector3();
+  private scratchRight = new THREE.Vector3();
+
+  constructor(seed: number = 0) {
+    this.reset(seed);
+  }
+
+  /**
+   * Lay out a new road for a course seed
+   */
+  reset(seed: number): void {
+    this.seed = seed >>> 0;
+    this.rng = new SeededRandom((seed ^ RoadPath.SEED_SALT) >>> 0);
+    this.nodes = [];
+    this.firstNode = 0;
+    this.sampleStart = 0;
+    this.headings = [0];
+    this.xs = [0];
+    this.zs = [0];
+  }
+
+  /**
+   * Get the course seed the road was laid out from
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  static createFrame(): RoadFrame {
+    return {
+      position: new THREE.Vector3(),
+      tangent: new THREE.Vector3(),
+      right: new THREE.Vector3(),
+      up: new THREE.Vector3(),
+      heading: 0
+    };
+  }
+
+  private generateNodes(index: number): void {
+    while (this.firstNode + this.nodes.length <= index) {
+      const i = this.firstNode + this.nodes.length;
+      if (i < RoadPath.STRAIGHT_NODES) {
+        this.nodes.push({ curvature: 0, elevation: 0, heading: 0 });
+        continue;
+      }
+
+      const previous = this.nodes[this.nodes.length - 1];
+      let curvature = 0;
+      if (this.rng.next() >= RoadPath.STRAIGHT_CHANCE) {
+        // Turn back toward the main direction once the road has swung far enough
+        const sign = previous.heading > RoadPath.MAX_HEADING / 2 ? -1
+          : previous.heading < -RoadPath.MAX_HEADING / 2 ? 1
+          : this.rng.next() < 0.5 ? -1 : 1;
+        curvature = sign * this.rng.range(RoadPath.MIN_CURVATURE, RoadPath.MAX_CURVATURE);
+      }
+
+      const elevation = MathUtils.clamp(
+        previous.elevation + this.rng.range(-RoadPath.MAX_ELEVATION_STEP, RoadPath.MAX_ELEVATION_STEP),
+        0,
+        RoadPath.MAX_ELEVATION
+      );
+
+      // Smoothstep blends integrate to the average of their ends
+      const heading = previous.heading + ((previous.curvature + curvature) / 2) * RoadPath.NODE_SPACING;
+      this.nodes.push({ curvature, elevation, heading });
+    }
+  }
+
+  /**
+   * Blend between the nodes around a distance; returns [from, to, t]
+   */
+  private getSpan(distance: number): [RoadNode, RoadNode, number] {
+    const position = Math.max(distance, 0) / RoadPath.NODE_SPACING;
+    const index = Math.max(Math.floor(position), this.firstNode);
+    this.generateNodes(index + 1);
+    const local = index - this.firstNode;
+    return [this.nodes[local], this.nodes[local + 1], Math.max(position - index, 0)];
+  }
+
+  /**
+   * Road curvature (1/radius, positive = left turn) at a distance along the road
+   */
+  getCurvature(distance: number): number {
+    const [from, to, t] = this.getSpan(distance);
+    return MathUtils.lerp(from.curvature, to.curvature, t * t * (3 - 2 * t));
+  }
+
+  /**
+   * Bank angle at a distance; positive raises the right edge (left turns)
+   */
+  getBank(distance: number): number {
+    return MathUtils.clamp(
+      this.getCurvature(distance) * RoadPath.BANK_PER_CURVATURE,
+      -RoadPath.MAX_BANK,
+      RoadPath.MAX_BANK
+    );
+  }
+
+  /**
+   * Height of the centre line; lifted on banked turns so the low edge stays above ground
+   */
+  getHeight(distance: number): number {
+    const [from, to, t] = this.getSpan(distance);
+    const elevation = MathUtils.lerp(from.elevation, to.elevation, t * t * (3 - 2 * t));
+    return elevation + ROAD_HALF_WIDTH * Math.abs(Math.sin(this.getBank(distance)));
+  }
+
+  /**
+   * Slope (rise per unit distance) of the centre line
+   */
+  getSlope(distance: number): number {
+    if (distance <= 0) return 0;
+    const [from, to, t] = this.getSpan(distance);
+    return ((to.elevation - from.elevation) * 6 * t * (1 - t)) / RoadPath.NODE_SPACING;
+  }
+
+  /**
+   * Integrate the centre line far enough to cover a distance
+   */
+  private extendSamples(distance: number): void {
+    const spacing = RoadPath.SAMPLE_SPACING;
+    let last = this.headings.length - 1;
+
+    while (this.sampleStart + last * spacing < distance) {
+      const start = this.sampleStart + last * spacing;
+      const heading = this.headings[last] + this.getCurvature(start + spacing / 2) * spacing;
+      const midHeading = (this.headings[last] + heading) / 2;
+
+      this.headings.push(heading);
+      this.xs.push(this.xs[last] - Math.sin(midHeading) * spacing);
+      this.zs.push(this.zs[last] - Math.cos(midHeading) * spacing);
+      last++;
+    }
+  }
+
+  /**
+   * Forget nodes and centre-line samples behind a distance so long runs
+   * use flat memory; nothing behind it may be queried afterwards
+   */
+  trimBefore(distance: number): void {
+    const drop = Math.floor((distance - this.sampleStart) / RoadPath.SAMPLE_SPACING);
+
+    // Splicing is batched; a few hundred stale samples cost nothing
+    if (drop > 256 && drop < this.headings.length - 1) {
+      this.headings.splice(0, drop);
+      this.xs.splice(0, drop);
+      this.zs.splice(0, drop);
+      this.sampleStart += drop * RoadPath.SAMPLE_SPACING;
+    }
+
+    const dropNodes = Math.floor(distance / RoadPath.NODE_SPACING) - this.firstNode;
+    if (dropNodes > 32 && dropNodes < this.nodes.length - 1) {
+      this.nodes.splice(0, dropNodes);
+      this.firstNode += dropNodes;
+    }
+  }
+
+  /**
+   * Get the road's local frame at a distance along it
+   */
+  getFrame(distance: number, target: RoadFrame = RoadPath.createFrame()): RoadFrame {
+    this.extendSamples(distance + RoadPath.SAMPLE_SPACING);
+
+    let heading: number;
+    let x: number;
+    let z: number;
+    const offset = (distance - this.sampleStart) / RoadPath.SAMPLE_SPACING;
+
+    if (offset <= 0) {
+      // Before the first sample: carry on straight along its heading
+      const back = distance - this.sampleStart;
+      heading = this.headings[0];
+      x = this.xs[0] - Math.sin(heading) * back;
+      z = this.zs[0] - Math.cos(heading) * back;
+    } else {
+      const index = Math.floor(offset);
+      const t = offset - index;
+      heading = MathUtils.lerp(this.headings[index], this.headings[index + 1], t);
+      x = MathUtils.lerp(this.xs[index], this.xs[index + 1], t);
+      z = MathUtils.lerp(this.zs[index], this.zs[index + 1], t);
+    }
+
+    const sin = Math.sin(heading);
+    const cos = Math.cos(heading);
+    const bank = this.getBank(distance);
+
+    target.heading = heading;
+    target.position.set(x, this.getHeight(distance), z);
+    target.tangent.set(-sin, this.getSlope(distance), -cos).normalize();
+
+    // Level right vector, then roll it and the normal about the tangent by the bank
+    target.right.set(cos, 0, -sin);
+    target.up.crossVectors(target.right, target.tangent).normalize();
+    const right = this.scratchRight.copy(target.right);
+    target.right.multiplyScalar(Math.cos(bank)).addScaledVector(target.up, Math.sin(bank));
+    target.up.multiplyScalar(Math.cos(bank)).addScaledVector(right, -Math.sin(bank));
+
+    return target;
+  }
+
+  /**
+   * Map a track-space point onto the road in world space
+   */
+  toWorld(point: THREE.Vector3, target: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    const frame = this.getFrame(-point.z, this.scratchFrame);
+    return target.copy(frame.position)
+      .addScaledVector(frame.right, point.x)
+      .addScaledVector(frame.up, point.y);
+  }
+
+  /**
+   * Rotation taking track-space axes to the road's frame at a distance
+   */
+  getOrientation(distance: number, target: THREE.Quaternion = new THREE.Quaternion()): THREE.Quaternion {
+    const frame = this.getFrame(distance, this.scratchFrame);
+    this.scratchBack.copy(frame.tangent).negate(); // Track space +Z points backward
+    this.scratchMatrix.makeBasis(frame.right, frame.up, this.scratchBack);
+    return target.setFromRotationMatrix(this.scratchMatrix);
+  }
+}
\ No newline at end of file
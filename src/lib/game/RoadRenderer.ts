@@ -0,0 +1,548 @@
+// Road rendering system for the 3D car racing game
+import * as THREE from 'three';
+import { RoadPath, RoadFrame, ROAD_HALF_WIDTH } from './RoadPath';
+import { BIOMES, DEFAULT_BIOME_ID, SceneryRule } from './Biome';
+import { ThreeUtils, RoadsidePropType } from '../utils/three-utils';
+import { SceneryImpostors } from './SceneryImpostors';
+import { MathUtils, SeededRandom } from '../utils/math-utils';
+
+interface BentObject {
+  object: THREE.Object3D;
+  position: THREE.Vector3;
+  rotation: THREE.Euler;
+}
+
+// A chunk mesh whose buffers are allocated once and rewritten on every reuse
+interface ChunkMesh {
+  mesh: THREE.Mesh;
+  positions: Float32Array;
+  indices: Uint16Array;
+  vertexCount: number;
+  indexCount: number;
+}
+
+// A street lamp and the head its light is placed at; the head drawn depends on the lamp's detail level
+interface StreetLamp {
+  prop: THREE.Object3D;
+  head: THREE.Object3D;
+}
+
+interface RoadChunk {
+  index: number;
+  group: THREE.Group;
+  road: ChunkMesh;
+  shoulders: ChunkMesh;
+  markings: ChunkMesh;
+  props: THREE.Object3D[];
+}
+
+/**
+ * Streams the procedural road around the car and bends track-space
+ * gameplay objects onto it while a frame is drawn. Chunks and props are
+ * pooled, so memory stays flat however long a run lasts
+ */
+export class RoadRenderer {
+  static readonly GROUND_LEVEL = -0.05;
+  private readonly CHUNK_LENGTH = RoadPath.NODE_SPACING;
+  private readonly MIN_SLICE_SPACING = 4; // Finest road mesh; chunk buffers are sized for it
+  private readonly MAX_VIEW_AHEAD = 640;
+  private readonly VIEW_BEHIND = 80;
+  private readonly SHOULDER_WIDTH = 8;
+  private readonly DASH_LENGTH = 10;
+  private readonly DASH_SPACING = 50;
+  private readonly EDGE_LINE_WIDTH = 0.3;
+  private readonly FURNITURE_OFFSET = 1; // Props this close to the edge follow the road's bank and slope
+  private readonly PROP_POOL_SIZE = 240; // Per prop type
+  private readonly IMPOSTOR_DISTANCE = 200; // Before the preset's level-of-detail scale
+  private readonly IMPOSTOR_HYSTERESIS = 0.1;
+  private readonly SCENERY_SEED_SALT = 0x27d4eb2f;
+  private readonly DRY_SHININESS = 8;
+  private readonly WET_SHININESS = 90;
+  private readonly WET_SPECULAR = new THREE.Color(0x8a8f96);
+  private readonly LAMP_OFF_COLOR = new THREE.Color(0x6b6b66);
+  private readonly LAMP_ON_COLOR = new THREE.Color(0xfff3c4);
+
+  // Vertex budgets per chunk: two per slice of every ribbon
+  private readonly SLICES = Math.ceil(this.CHUNK_LENGTH / this.MIN_SLICE_SPACING);
+  private readonly MAX_DASHES = Math.ceil(this.CHUNK_LENGTH / this.DASH_SPACING) + 1;
+
+  private scene: THREE.Scene;
+  private path: RoadPath;
+  private activeChunks: Map<number, RoadChunk> = new Map();
+  private chunkPool: RoadChunk[] = [];
+  private propPool: Map<RoadsidePropType, THREE.LOD[]> = new Map();
+  private impostors?: SceneryImpostors;
+  private scenery: SceneryRule[] = BIOMES[DEFAULT_BIOME_ID].scenery;
+  private sliceSpacing: number = this.MIN_SLICE_SPACING;
+  private sceneryDensity: number = 1;
+  private viewAhead: number = this.MAX_VIEW_AHEAD;
+
+  private roadMaterial: THREE.MeshPhongMaterial; // Phong so wet asphalt can catch highlights
+  private shoulderMaterial: THREE.MeshLambertMaterial;
+  private markingMaterial: THREE.MeshBasicMaterial;
+  private lampMaterial: THREE.MeshBasicMaterial; // Shared by every street lamp head
+  private lamps: StreetLamp[] = [];
+
+  private bent: BentObject[] = [];
+  private frame: RoadFrame = RoadPath.createFrame();
+  private orientation = new THREE.Quaternion();
+  private point = new THREE.Vector3();
+  private trackPoint = new THREE.Vector3();
+
+  constructor(scene: THREE.Scene, path: RoadPath, impostors?: SceneryImpostors) {
+    this.scene = scene;
+    this.path = path;
+    this.impostors = impostors;
+
+    const palette = BIOMES[DEFAULT_BIOME_ID].palette;
+    this.roadMaterial = new THREE.MeshPhongMaterial({ color: palette.road, specular: 0x000000, shininess: this.DRY_SHININESS });
+    this.shoulderMaterial = new THREE.MeshLambertMaterial({ color: palette.shoulder });
+    this.markingMaterial = new THREE.MeshBasicMaterial({
+      color: palette.marking,
+      polygonOffset: true, // Painted on the asphalt without z-fighting
+      polygonOffsetFactor: -1,
+      polygonOffsetUnits: -1
+    });
+    this.lampMaterial = new THREE.MeshBasicMaterial({ color: this.LAMP_OFF_COLOR });
+  }
+
+  /**
+   * Scenery for chunks streamed in from now on; chunks already built keep theirs
+   */
+  setScenery(rules: SceneryRule[]): void {
+    this.scenery = rules;
+  }
+
+  /**
+   * Set how finely the road is tessellated; chunks on screen are rebuilt
+   */
+  setSliceSpacing(sliceSpacing: number): void {
+    sliceSpacing = Math.max(sliceSpacing, this.MIN_SLICE_SPACING);
+    if (sliceSpacing === this.sliceSpacing) return;
+
+    this.sliceSpacing = sliceSpacing;
+    this.reset(); // The next update streams everything back in at the new detail
+  }
+
+  /**
+   * Scale how much scattered scenery lines chunks streamed in from now on,
+   * so frequent changes never cause a rebuild hitch
+   */
+  setSceneryDensity(density: number): void {
+    this.sceneryDensity = density;
+  }
+
+  /**
+   * Stream the road no further ahead than the camera can see
+   */
+  setViewDistance(distance: number): void {
+    this.viewAhead = Math.min(distance, this.MAX_VIEW_AHEAD);
+  }
+
+  /**
+   * Recolor the asphalt, shoulders and markings of every chunk
+   */
+  setSurfaceColors(road: THREE.ColorRepresentation, shoulder: THREE.ColorRepresentation, marking: THREE.ColorRepresentation): void {
+    this.roadMaterial.color.set(road);
+    this.shoulderMaterial.color.set(shoulder);
+    this.markingMaterial.color.set(marking);
+  }
+
+  /**
+   * Make the asphalt glossy with rain or melt water, from 0 (dry) to 1 (soaked)
+   */
+  setWetness(wetness: number): void {
+    this.roadMaterial.specular.copy(this.WET_SPECULAR).multiplyScalar(wetness);
+    this.roadMaterial.shininess = MathUtils.lerp(this.DRY_SHININESS, this.WET_SHININESS, wetness);
+  }
+
+  /**
+   * Light the street lamps, from 0 (off) to 1 (fully lit)
+   */
+  setLampGlow(glow: number): void {
+    this.lampMaterial.color.copy(this.LAMP_OFF_COLOR).lerp(this.LAMP_ON_COLOR, glow);
+  }
+
+  /**
+   * Fill targets with the world positions of the street lamp heads nearest
+   * a point, closest first; returns how many were found
+   */
+  getNearestLamps(point: THREE.Vector3, targets: THREE.Vector3[]): number {
+    let found = 0;
+    for (const { prop, head } of this.lamps) {
+      if (!prop.visible) continue;
+
+      // Insertion into the short sorted list of targets
+      const distance = head.getWorldPosition(this.point).distanceToSquared(point);
+      let slot = found;
+      while (slot > 0 && targets[slot - 1].distanceToSquared(point) > distance) {
+        if (slot < targets.length) {
+          targets[slot].copy(targets[slot - 1]);
+        }
+        slot--;
+      }
+      if (slot < targets.length) {
+        targets[slot].copy(this.point);
+        found = Math.min(found + 1, targets.length);
+      }
+    }
+    return found;
+  }
+
+  getPath(): RoadPath {
+    return this.path;
+  }
+
+  /**
+   * Stream chunks in ahead of the car and recycle those left behind
+   */
+  update(distance: number): void {
+    const first = Math.floor((distance - this.VIEW_BEHIND) / this.CHUNK_LENGTH);
+    const last = Math.floor((distance + this.viewAhead) / this.CHUNK_LENGTH);
+
+    for (const [index, chunk] of this.activeChunks) {
+      if (index < first || index > last) {
+        this.releaseChunk(chunk);
+      }
+    }
+
+    for (let index = first; index <= last; index++) {
+      if (!this.activeChunks.has(index)) {
+        this.buildChunk(this.acquireChunk(index));
+      }
+    }
+
+    this.path.trimBefore(distance - this.VIEW_BEHIND - this.CHUNK_LENGTH);
+  }
+
+  /**
+   * Take a chunk from the pool, allocating one only while the pool is still growing
+   */
+  private acquireChunk(index: number): RoadChunk {
+    let chunk = this.chunkPool.pop();
+    if (!chunk) {
+      const markingRibbons = 2 + this.MAX_DASHES;
+      chunk = {
+        index,
+        group: new THREE.Group(),
+        road: this.createChunkMesh((this.SLICES + 1) * 2, this.roadMaterial),
+        shoulders: this.createChunkMesh((this.SLICES + 1) * 4, this.shoulderMaterial),
+        markings: this.createChunkMesh(markingRibbons * (this.SLICES + 1) * 2, this.markingMaterial),
+        props: []
+      };
+      chunk.group.add(chunk.road.mesh, chunk.shoulders.mesh, chunk.markings.mesh);
+      this.scene.add(chunk.group);
+    }
+
+    chunk.index = index;
+    chunk.group.visible = true;
+    this.activeChunks.set(index, chunk);
+    return chunk;
+  }
+
+  private releaseChunk(chunk: RoadChunk): void {
+    chunk.group.visible = false;
+    chunk.props.forEach(prop => {
+      prop.visible = false;
+    });
+    chunk.props = [];
+
+    this.activeChunks.delete(chunk.index);
+    this.chunkPool.push(chunk);
+  }
+
+  private createChunkMesh(vertexCapacity: number, material: THREE.Material): ChunkMesh {
+    const positions = new Float32Array(vertexCapacity * 3);
+    const indices = new Uint16Array(vertexCapacity * 3); // Six indices per two vertices
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setIndex(new THREE.BufferAttribute(indices, 1));
+
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.receiveShadow = true;
+    return { mesh, positions, indices, vertexCount: 0, indexCount: 0 };
+  }
+
+  /**
+   * Lay the surface, shoulders, markings and props of a chunk on its stretch of road
+   */
+  private buildChunk(chunk: RoadChunk): void {
+    const start = chunk.index * this.CHUNK_LENGTH;
+    const end = start + this.CHUNK_LENGTH;
+
+    this.beginMesh(chunk.road);
+    this.addStrip(chunk.road, start, end, -ROAD_HALF_WIDTH, ROAD_HALF_WIDTH);
+    this.finishMesh(chunk.road);
+
+    // Shoulders slope from the road edge down to the ground
+    this.beginMesh(chunk.shoulders);
+    this.addRibbon(chunk.shoulders, start, end, (distance, side, target) => {
+      return side === 0
+        ? this.getGroundPoint(distance, -ROAD_HALF_WIDTH - this.SHOULDER_WIDTH, target)
+        : this.path.toWorld(this.trackPoint.set(-ROAD_HALF_WIDTH, 0, -distance), target);
+    });
+    this.addRibbon(chunk.shoulders, start, end, (distance, side, target) => {
+      return side === 0
+        ? this.path.toWorld(this.trackPoint.set(ROAD_HALF_WIDTH, 0, -distance), target)
+        : this.getGroundPoint(distance, ROAD_HALF_WIDTH + this.SHOULDER_WIDTH, target);
+    });
+    this.finishMesh(chunk.shoulders);
+
+    // Dashed centre line (dashes may straddle chunk borders) and solid edge lines
+    this.beginMesh(chunk.markings);
+    const firstDash = Math.ceil((start - this.DASH_LENGTH) / this.DASH_SPACING) * this.DASH_SPACING;
+    for (let dash = firstDash; dash < end; dash += this.DASH_SPACING) {
+      const dashStart = Math.max(dash, start);
+      const dashEnd = Math.min(dash + this.DASH_LENGTH, end);
+      if (dashEnd > dashStart) {
+        this.addStrip(chunk.markings, dashStart, dashEnd, -0.5, 0.5);
+      }
+    }
+    const edge = ROAD_HALF_WIDTH - 0.5;
+    this.addStrip(chunk.markings, start, end, -edge - this.EDGE_LINE_WIDTH, -edge);
+    this.addStrip(chunk.markings, start, end, edge, edge + this.EDGE_LINE_WIDTH);
+    this.finishMesh(chunk.markings);
+
+    this.placeScenery(chunk, start, end);
+  }
+
+  /**
+   * Line both sides of a chunk with the current scenery; a chunk's own seed
+   * keeps its layout stable however often it is streamed in
+   */
+  private placeScenery(chunk: RoadChunk, start: number, end: number): void {
+    const rng = new SeededRandom(
+      (this.path.getSeed() ^ this.SCENERY_SEED_SALT ^ Math.imul(chunk.index, 0x9e3779b1)) >>> 0
+    );
+
+    for (const rule of this.scenery) {
+      const scattered = rule.offset[1] > rule.offset[0]; // Fixed offsets form continuous rows
+      const chance = scattered ? rule.chance * this.sceneryDensity : rule.chance; // Rows are never thinned
+      for (const side of [-1, 1]) {
+        for (let slot = start; slot < end; slot += rule.spacing) {
+          if (rng.next() >= chance) continue;
+
+          const distance = scattered
+            ? slot + rng.range(0.1, 0.9) * rule.spacing
+            : slot + rule.spacing / 2;
+          const edgeOffset = rng.range(rule.offset[0], rule.offset[1]);
+          const prop = this.placeProp(chunk, rule.type, distance, side, edgeOffset);
+
+          // Natural props vary in size and facing; buildings in height
+          if (prop && scattered) {
+            const scale = rng.range(0.8, 1.3);
+            if (rule.type === 'building') {
+              prop.scale.set(1, rng.range(0.6, 2.2), 1);
+            } else {
+              prop.scale.setScalar(scale);
+              prop.rotateY(rng.range(0, Math.PI * 2));
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Stand a pooled prop beside the road; skipped when the pool is exhausted
+   */
+  private placeProp(
+    chunk: RoadChunk,
+    type: RoadsidePropType,
+    distance: number,
+    side: number,
+    edgeOffset: number
+  ): THREE.Object3D | null {
+    const prop = this.acquireProp(type);
+    if (!prop) return null;
+
+    const lateral = side * (ROAD_HALF_WIDTH + edgeOffset);
+    prop.scale.setScalar(1);
+    if (edgeOffset <= this.FURNITURE_OFFSET) {
+      // Road furniture sits on the road's edge and follows its frame
+      this.path.toWorld(this.trackPoint.set(lateral, 0, -distance), prop.position);
+      this.path.getOrientation(distance, prop.quaternion);
+    } else {
+      // Everything else stands upright on the shoulder slope or the ground
+      const edgeHeight = this.path.toWorld(this.trackPoint.set(side * ROAD_HALF_WIDTH, 0, -distance), prop.position).y;
+      this.getGroundPoint(distance, lateral, prop.position);
+      prop.position.y += (edgeHeight - RoadRenderer.GROUND_LEVEL) * Math.max(1 - edgeOffset / this.SHOULDER_WIDTH, 0);
+      // Face the road: lamps turn their arm over it
+      prop.rotation.set(0, this.frame.heading + (side < 0 ? Math.PI : 0), 0);
+    }
+
+    prop.visible = true;
+    chunk.props.push(prop);
+    return prop;
+  }
+
+  /**
+   * Take an idle prop of a type, growing its pool up to PROP_POOL_SIZE
+   */
+  private acquireProp(type: RoadsidePropType): THREE.LOD | null {
+    let pool = this.propPool.get(type);
+    if (!pool) {
+      pool = [];
+      this.propPool.set(type, pool);
+    }
+
+    let prop = pool.find(candidate => !candidate.visible);
+    if (!prop && pool.length < this.PROP_POOL_SIZE) {
+      prop = ThreeUtils.createRoadsideProp(type);
+      const impostor = this.impostors?.createImpostor(type);
+      if (impostor) {
+        prop.addLevel(impostor, this.IMPOSTOR_DISTANCE, this.IMPOSTOR_HYSTERESIS);
+      }
+
+      // Every detail level has its own head, all sharing one material
+      const head = prop.getObjectByName('lamp-head') as THREE.Mesh | undefined;
+      if (head) {
+        (head.material as THREE.Material).dispose();
+        prop.traverse(child => {
+          if (child.name === 'lamp-head') {
+            (child as THREE.Mesh).material = this.lampMaterial;
+          }
+        });
+        this.lamps.push({ prop, head });
+      }
+      this.scene.add(prop);
+      pool.push(prop);
+    }
+    return prop ?? null;
+  }
+
+  /**
+   * Point on the flat ground beside the road, level with its heading
+   */
+  private getGroundPoint(distance: number, offset: number, target: THREE.Vector3): THREE.Vector3 {
+    const frame = this.path.getFrame(distance, this.frame);
+    return target.set(
+      frame.position.x + Math.cos(frame.heading) * offset,
+      RoadRenderer.GROUND_LEVEL,
+      frame.position.z - Math.sin(frame.heading) * offset
+    );
+  }
+
+  private beginMesh(chunkMesh: ChunkMesh): void {
+    chunkMesh.vertexCount = 0;
+    chunkMesh.indexCount = 0;
+  }
+
+  /**
+   * Upload a rewritten chunk mesh; unused capacity is collapsed so it never draws
+   */
+  private finishMesh(chunkMesh: ChunkMesh): void {
+    const { mesh, positions, indices, vertexCount, indexCount } = chunkMesh;
+    const used = vertexCount * 3;
+    for (let i = used; i < positions.length; i += 3) {
+      positions[i] = positions[used - 3];
+      positions[i + 1] = positions[used - 2];
+      positions[i + 2] = positions[used - 1];
+    }
+    indices.fill(0, indexCount);
+
+    const geometry = mesh.geometry;
+    geometry.attributes.position.needsUpdate = true;
+    geometry.index!.needsUpdate = true;
+    geometry.setDrawRange(0, indexCount);
+    geometry.computeVertexNormals();
+    geometry.computeBoundingSphere();
+  }
+
+  /**
+   * Add a strip lying on the road surface between two lateral offsets
+   */
+  private addStrip(chunkMesh: ChunkMesh, start: number, end: number, left: number, right: number): void {
+    this.addRibbon(chunkMesh, start, end, (distance, side, target) => {
+      return this.path.toWorld(this.trackPoint.set(side === 0 ? left : right, 0, -distance), target);
+    });
+  }
+
+  /**
+   * Add a ribbon of quads along the road; edge(distance, 0) is its left side
+   */
+  private addRibbon(
+    chunkMesh: ChunkMesh,
+    start: number,
+    end: number,
+    edge: (distance: number, side: 0 | 1, target: THREE.Vector3) => THREE.Vector3
+  ): void {
+    const slices = Math.max(Math.ceil((end - start) / this.sliceSpacing), 1);
+    const base = chunkMesh.vertexCount;
+
+    for (let i = 0; i <= slices; i++) {
+      const distance = start + ((end - start) * i) / slices;
+      for (const side of [0, 1] as const) {
+        const point = edge(distance, side, this.point);
+        chunkMesh.positions.set([point.x, point.y, point.z], chunkMesh.vertexCount * 3);
+        chunkMesh.vertexCount++;
+      }
+    }
+
+    for (let i = 0; i < slices; i++) {
+      const left = base + i * 2;
+      chunkMesh.indices.set([left, left + 1, left + 2, left + 1, left + 3, left + 2], chunkMesh.indexCount);
+      chunkMesh.indexCount += 6;
+    }
+  }
+
+  /**
+   * Move track-space objects onto the road for drawing; undo with unbend()
+   */
+  bend(objects: THREE.Object3D[]): void {
+    for (const object of objects) {
+      const position = object.position.clone();
+      this.bent.push({ object, position, rotation: object.rotation.clone() });
+
+      const distance = -position.z;
+      this.path.toWorld(position, object.position);
+      object.quaternion.premultiply(this.path.getOrientation(distance, this.orientation));
+    }
+  }
+
+  /**
+   * Restore the exact track-space transforms the simulation works with
+   */
+  unbend(): void {
+    for (const { object, position, rotation } of this.bent) {
+      object.position.copy(position);
+      object.rotation.copy(rotation);
+    }
+    this.bent = [];
+  }
+
+  /**
+   * Return every chunk to the pool, e.g. after the road was laid out for a new seed
+   */
+  reset(): void {
+    for (const chunk of this.activeChunks.values()) {
+      this.releaseChunk(chunk);
+    }
+  }
+
+  dispose(): void {
+    this.reset();
+    for (const chunk of this.chunkPool) {
+      this.scene.remove(chunk.group);
+      chunk.group.traverse(child => {
+        if (child instanceof THREE.Mesh) {
+          child.geometry.dispose(); // Materials are shared between chunks
+        }
+      });
+    }
+    this.chunkPool = [];
+
+    this.propPool.forEach(pool => pool.forEach(prop => {
+      this.scene.remove(prop);
+      ThreeUtils.dispose(prop);
+    }));
+    this.propPool.clear();
+    this.lamps = [];
+
+    this.roadMaterial.dispose();
+    this.shoulderMaterial.dispose();
+    this.markingMaterial.dispose();
+    this.lampMaterial.dispose();
+  }
+}
\ No newline at end of file
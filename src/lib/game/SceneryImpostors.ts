@@ -0,0 +1,126 @@
+// Impostor billboards for distant scenery in the 3D car racing game
+import * as THREE from 'three';
+import { ThreeUtils, RoadsidePropType } from '../utils/three-utils';
+
+// Scenery that reads the same from every side; thin road furniture is never far enough to need one
+export const IMPOSTOR_TYPES: RoadsidePropType[] = ['tree', 'pine', 'cactus', 'rock', 'building'];
+
+interface Impostor {
+  target: THREE.WebGLRenderTarget;
+  material: THREE.SpriteMaterial; // Shared by every billboard of the type
+  center: THREE.Vector2; // The prop's base within the picture
+  size: THREE.Vector2; // World units
+}
+
+/**
+ * Bakes each scenery prop into a small picture once, then stands in camera
+ * facing sprites for them in the distance: one quad instead of a dozen
+ * meshes. Pictures are lit neutrally and tinted to match the scene
+ */
+export class SceneryImpostors {
+  private readonly TEXTURE_SIZE = 128;
+  private readonly VIEW_DIRECTION = new THREE.Vector3(1, 0, 1).normalize(); // Three-quarter view, showing two sides
+  private readonly AMBIENT_INTENSITY = 1.2;
+  private readonly SUN_INTENSITY = 1.8;
+
+  private impostors: Map<RoadsidePropType, Impostor> = new Map();
+
+  constructor(renderer: THREE.WebGLRenderer) {
+    const scene = new THREE.Scene();
+    scene.add(new THREE.AmbientLight(0xffffff, this.AMBIENT_INTENSITY));
+    const sun = new THREE.DirectionalLight(0xffffff, this.SUN_INTENSITY);
+    sun.position.set(1, 2, 0.5);
+    scene.add(sun);
+
+    // Baking must leave the renderer as it found it
+    const previousTarget = renderer.getRenderTarget();
+    const previousClearColor = renderer.getClearColor(new THREE.Color());
+    const previousClearAlpha = renderer.getClearAlpha();
+    renderer.setClearColor(0x000000, 0);
+
+    for (const type of IMPOSTOR_TYPES) {
+      this.impostors.set(type, this.bake(renderer, scene, type));
+    }
+
+    renderer.setRenderTarget(previousTarget);
+    renderer.setClearColor(previousClearColor, previousClearAlpha);
+    console.log(`Baked ${this.impostors.size} scenery impostors`);
+  }
+
+  /**
+   * Render a prop's detailed level orthographically, framed tightly from the side
+   */
+  private bake(renderer: THREE.WebGLRenderer, scene: THREE.Scene, type: RoadsidePropType): Impostor {
+    const prop = ThreeUtils.createRoadsideProp(type);
+    const detail = prop.levels[0].object;
+    scene.add(detail);
+
+    // Frame the bounding box as seen along the view direction
+    const box = new THREE.Box3().setFromObject(detail);
+    const right = new THREE.Vector3(this.VIEW_DIRECTION.z, 0, -this.VIEW_DIRECTION.x);
+    const corner = new THREE.Vector3();
+    let minX = Infinity;
+    let maxX = -Infinity;
+    for (let i = 0; i < 4; i++) {
+      corner.set(i & 1 ? box.max.x : box.min.x, 0, i & 2 ? box.max.z : box.min.z);
+      minX = Math.min(minX, corner.dot(right));
+      maxX = Math.max(maxX, corner.dot(right));
+    }
+
+    const radius = box.getBoundingSphere(new THREE.Sphere()).radius;
+    const camera = new THREE.OrthographicCamera(minX, maxX, box.max.y, box.min.y, 0.1, radius * 4);
+    camera.position.copy(this.VIEW_DIRECTION).multiplyScalar(radius * 2);
+    camera.lookAt(0, 0, 0);
+
+    const target = new THREE.WebGLRenderTarget(this.TEXTURE_SIZE, this.TEXTURE_SIZE, {
+      generateMipmaps: true,
+      minFilter: THREE.LinearMipmapLinearFilter
+    });
+    renderer.setRenderTarget(target);
+    renderer.clear();
+    renderer.render(scene, camera);
+
+    scene.remove(detail);
+    ThreeUtils.dispose(prop);
+    ThreeUtils.dispose(detail);
+
+    const width = maxX - minX;
+    const height = box.max.y - box.min.y;
+    return {
+      target,
+      // Cut out rather than blended, so billboards need no sorting
+      material: new THREE.SpriteMaterial({ map: target.texture, alphaTest: 0.5, transparent: false }),
+      center: new THREE.Vector2(-minX / width, -box.min.y / height),
+      size: new THREE.Vector2(width, height)
+    };
+  }
+
+  /**
+   * A billboard standing on the origin in place of a prop, or null for
+   * types without one
+   */
+  createImpostor(type: RoadsidePropType): THREE.Sprite | null {
+    const impostor = this.impostors.get(type);
+    if (!impostor) return null;
+
+    const sprite = new THREE.Sprite(impostor.material);
+    sprite.center.copy(impostor.center);
+    sprite.scale.set(impostor.size.x, impostor.size.y, 1);
+    return sprite;
+  }
+
+  /**
+   * Tint every billboard with the scene's light, e.g. darker at night
+   */
+  setLight(color: THREE.Color): void {
+    this.impostors.forEach(impostor => impostor.material.color.copy(color));
+  }
+
+  dispose(): void {
+    this.impostors.forEach(impostor => {
+      impostor.material.dispose();
+      impostor.target.dispose();
+    });
+    this.impostors.clear();
+  }
+}
\ No newline at end of file
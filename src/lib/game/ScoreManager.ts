@@ -10,13 +10,19 @@ export interface ScoreData {
 }
 
 export class ScoreManager {
-  private score: number = 0;
+  private score: number = 0; // Fractional; per-step gains are too small to floor individually
   private highScore: number = 0;
   private distance: number = 0;
   private lives: number = 3;
   private maxLives: number = 3;
   private combo: number = 0;
   private maxCombo: number = 0;
+  private obstaclesAvoided: number = 0;
+  private collisions: number = 0;
+  private nearMisses: number = 0;
+  private drifts: number = 0;
+  private scoreMultiplier: number = 1; // Power-up multiplier on all points earned
+  private boostSpeedThreshold: number = 25; // Car's normal top speed; only nitro goes beyond it
   
   private lastTime: number = 0;
   private gameStartTime: number = 0;
@@ -28,11 +34,17 @@ export class ScoreManager {
   private readonly COMBO_MULTIPLIER = 50;
   private readonly TIME_MULTIPLIER = 2;
   private readonly OBSTACLE_AVOIDANCE_POINTS = 100;
+  private readonly NEAR_MISS_POINTS = 75;
+  private readonly DRIFT_POINTS_PER_SECOND = 120;
+  private readonly BOOST_SPEED_MULTIPLIER = 15;
   
   // Combo system
   private comboTimer: number = 0;
   private readonly COMBO_TIMEOUT = 3; // seconds
-  private lastObstacleAvoidanceTime: number = 0;
+  private lastObstacleAvoidanceTime: number = -Infinity;
+  
+  // Milestones already reported this run
+  private reachedMilestones: Set<string> = new Set();
 
   /**
    * Initialize score manager
@@ -53,17 +65,23 @@ export class ScoreManager {
     // Distance-based scoring
     const distanceDelta = Math.abs(carSpeed) * deltaTime;
     this.distance += distanceDelta;
-    this.score += Math.floor(distanceDelta * this.DISTANCE_MULTIPLIER);
+    this.score += distanceDelta * this.DISTANCE_MULTIPLIER * this.scoreMultiplier;
     
     // Speed bonus (higher speed = more points)
     if (carSpeed > 15) { // Bonus for high speed
       const speedBonus = (carSpeed - 15) * this.SPEED_MULTIPLIER * deltaTime;
-      this.score += Math.floor(speedBonus);
+      this.score += speedBonus * this.scoreMultiplier;
+    }
+    
+    // Boost tier: extra points for speed beyond the normal top speed
+    if (carSpeed > this.boostSpeedThreshold) {
+      const boostBonus = (carSpeed - this.boostSpeedThreshold) * this.BOOST_SPEED_MULTIPLIER * deltaTime;
+      this.score += boostBonus * this.scoreMultiplier;
     }
     
     // Time survival bonus
     const timeBonus = this.TIME_MULTIPLIER * deltaTime;
-    this.score += Math.floor(timeBonus);
+    this.score += timeBonus * this.scoreMultiplier;
     
     // Reset combo if timeout
     if (this.comboTimer <= 0 && this.combo > 0) {
@@ -72,20 +90,27 @@ export class ScoreManager {
   }
 
   /**
-   * Award points for avoiding an obstacle
+   * Award points for clearing an obstacle pattern (ObstacleManager pattern name)
    */
   awardObstacleAvoidance(obstacleType: string, difficulty: number = 1): void {
-    const currentTime = Date.now() / 1000;
+    // Game time rather than wall time keeps combos deterministic for replays
+    const currentTime = this.timeSurvived;
     
     // Base points for obstacle avoidance
     let points = this.OBSTACLE_AVOIDANCE_POINTS;
     
-    // Bonus based on obstacle type
+    // Bonus based on obstacle pattern
     switch (obstacleType) {
-      case 'wall':
+      case 'double_barrier':
+        points *= 1.2;
+        break;
+      case 'wall_gap':
         points *= 1.5;
         break;
-      case 'moving_barrier':
+      case 'cone_slalom':
+        points *= 1.8;
+        break;
+      case 'moving_barriers':
         points *= 2.0;
         break;
       case 'narrow_passage':
@@ -108,7 +133,9 @@ export class ScoreManager {
       this.comboTimer = this.COMBO_TIMEOUT;
     }
     
+    points *= this.scoreMultiplier;
     this.maxCombo = Math.max(this.maxCombo, this.combo);
+    this.obstaclesAvoided++;
     this.score += Math.floor(points);
     this.lastObstacleAvoidanceTime = currentTime;
     
@@ -116,7 +143,55 @@ export class ScoreManager {
   }
 
   /**
-   * Lose a life due to collision
+   * Award points for a close shave; closeness is 0-1 (1 = scraped past). Returns points awarded
+   */
+  awardNearMiss(closeness: number, carSpeed: number): number {
+    // Closer passes at higher speed are worth more
+    const speedFactor = Math.min(Math.max(Math.abs(carSpeed) / 15, 0.5), 2);
+    const points = Math.floor(this.NEAR_MISS_POINTS * (1 + closeness * 2) * speedFactor * this.scoreMultiplier);
+    
+    this.nearMisses++;
+    this.score += points;
+    
+    // A near miss keeps a running combo alive
+    if (this.combo > 0) {
+      this.comboTimer = this.COMBO_TIMEOUT;
+    }
+    
+    console.log(`Near miss! +${points} points`);
+    return points;
+  }
+
+  /**
+   * Award style points for a finished drift; slipAngle is the average in radians. Returns points awarded
+   */
+  awardDrift(duration: number, slipAngle: number): number {
+    // Longer and wider slides are worth more
+    const angleFactor = 1 + Math.min(Math.abs(slipAngle) / 0.5, 2);
+    const points = Math.floor(this.DRIFT_POINTS_PER_SECOND * duration * angleFactor * this.scoreMultiplier);
+    
+    this.drifts++;
+    this.score += points;
+    
+    // A clean drift keeps a running combo alive
+    if (this.combo > 0) {
+      this.comboTimer = this.COMBO_TIMEOUT;
+    }
+    
+    console.log(`Drift! +${points} points`);
+    return points;
+  }
+
+  /**
+   * Register a collision: breaks the combo and counts against accuracy
+   */
+  registerCollision(): void {
+    this.collisions++;
+    this.resetCombo();
+  }
+
+  /**
+   * Lose a life (car wrecked)
    */
   loseLife(): number {
     this.lives = Math.max(0, this.lives - 1);
@@ -136,6 +211,34 @@ export class ScoreManager {
     }
   }
 
+  /**
+   * Set the multiplier applied to all points earned (score power-up)
+   */
+  setScoreMultiplier(multiplier: number): void {
+    this.scoreMultiplier = Math.max(multiplier, 0);
+  }
+
+  /**
+   * Get current score multiplier
+   */
+  getScoreMultiplier(): number {
+    return this.scoreMultiplier;
+  }
+
+  /**
+   * Set the speed above which the boost tier pays out (the car's top speed)
+   */
+  setBoostSpeedThreshold(speed: number): void {
+    this.boostSpeedThreshold = speed;
+  }
+
+  /**
+   * Set the number of lives per run; applies from the next reset
+   */
+  setMaxLives(maxLives: number): void {
+    this.maxLives = Math.max(1, Math.floor(maxLives));
+  }
+
   /**
    * Reset combo
    */
@@ -151,7 +254,7 @@ export class ScoreManager {
    * Calculate final score with bonuses
    */
   calculateFinalScore(): number {
-    let finalScore = this.score;
+    let finalScore = Math.floor(this.score);
     
     // Time survival bonus
     const survivalBonus = Math.floor(this.timeSurvived * 50);
@@ -209,12 +312,12 @@ export class ScoreManager {
     survivalTime: number;
   } {
     const averageSpeed = this.distance / Math.max(this.timeSurvived, 1);
-    const obstaclesAvoided = Math.floor(this.distance / 100); // Estimate
-    const accuracyRate = Math.min(100, (this.combo / Math.max(obstaclesAvoided, 1)) * 100);
+    const encounters = this.obstaclesAvoided + this.collisions;
+    const accuracyRate = encounters > 0 ? (this.obstaclesAvoided / encounters) * 100 : 100;
     
     return {
       averageSpeed,
-      obstaclesAvoided,
+      obstaclesAvoided: this.obstaclesAvoided,
       accuracyRate,
       survivalTime: this.timeSurvived
     };
@@ -229,9 +332,15 @@ export class ScoreManager {
     this.lives = this.maxLives;
     this.combo = 0;
     this.maxCombo = 0;
+    this.obstaclesAvoided = 0;
+    this.collisions = 0;
+    this.nearMisses = 0;
+    this.drifts = 0;
+    this.scoreMultiplier = 1;
     this.timeSurvived = 0;
     this.comboTimer = 0;
-    this.lastObstacleAvoidanceTime = 0;
+    this.lastObstacleAvoidanceTime = -Infinity;
+    this.reachedMilestones.clear();
     this.gameStartTime = Date.now() / 1000;
     
     console.log('Score manager reset');
@@ -262,7 +371,7 @@ export class ScoreManager {
    * Get current score
    */
   getScore(): number {
-    return this.score;
+    return Math.floor(this.score);
   }
 
   /**
@@ -286,6 +395,13 @@ export class ScoreManager {
     return this.lives;
   }
 
+  /**
+   * Get lives per run
+   */
+  getMaxLives(): number {
+    return this.maxLives;
+  }
+
   /**
    * Get current combo
    */
@@ -300,6 +416,27 @@ export class ScoreManager {
     return this.maxCombo;
   }
 
+  /**
+   * Get number of obstacle patterns cleared without contact
+   */
+  getObstaclesAvoided(): number {
+    return this.obstaclesAvoided;
+  }
+
+  /**
+   * Get number of near misses this run
+   */
+  getNearMisses(): number {
+    return this.nearMisses;
+  }
+
+  /**
+   * Get number of drifts scored this run
+   */
+  getDrifts(): number {
+    return this.drifts;
+  }
+
   /**
    * Get time survived
    */
@@ -312,7 +449,7 @@ export class ScoreManager {
    */
   getScoreData(): ScoreData {
     return {
-      currentScore: this.score,
+      currentScore: Math.floor(this.score),
       highScore: this.highScore,
       distance: this.distance,
       lives: this.lives,
@@ -323,33 +460,38 @@ export class ScoreManager {
   }
 
   /**
-   * Check for milestones and achievements
+   * Check for milestones and achievements; each is reported once per run
    */
   checkMilestones(): string[] {
     const milestones: string[] = [];
     
     // Distance milestones
-    if (this.distance >= 1000 && this.distance < 1100) {
+    if (this.distance >= 1000) {
       milestones.push('1KM_TRAVELED');
-    } else if (this.distance >= 5000 && this.distance < 5100) {
+    }
+    if (this.distance >= 5000) {
       milestones.push('5KM_TRAVELED');
     }
     
     // Combo milestones
-    if (this.combo === 10) {
+    if (this.combo >= 10) {
       milestones.push('10X_COMBO');
-    } else if (this.combo === 25) {
+    }
+    if (this.combo >= 25) {
       milestones.push('25X_COMBO');
     }
     
     // Survival time milestones
-    if (this.timeSurvived >= 60 && this.timeSurvived < 61) {
+    if (this.timeSurvived >= 60) {
       milestones.push('1MIN_SURVIVAL');
-    } else if (this.timeSurvived >= 300 && this.timeSurvived < 301) {
+    }
+    if (this.timeSurvived >= 300) {
       milestones.push('5MIN_SURVIVAL');
     }
     
-    return milestones;
+    const reached = milestones.filter(milestone => !this.reachedMilestones.has(milestone));
+    reached.forEach(milestone => this.reachedMilestones.add(milestone));
+    return reached;
   }
 
   /**
@@ -0,0 +1,809 @@
+// Renderer-free game simulation core for the 3D car racing game
+import * as THREE from 'three';
+import { CarController, ControlSettings } from './CarController';
+import { ObstacleManager, ObstacleData, PickupData } from './ObstacleManager';
+import { CollisionDetector, NearMissResult } from './CollisionDetector';
+import { ScoreManager } from './ScoreManager';
+import { DamageModel, DamageSettings, DEFAULT_DAMAGE_SETTINGS } from './DamageModel';
+import { VehicleSpec, PhysicsModel, DEFAULT_PHYSICS_MODEL } from './VehicleSpec';
+import { CarId, DEFAULT_CAR_ID, getCarDefinition } from './CarRoster';
+import { Livery } from './Livery';
+import { RoadPath } from './RoadPath';
+import { WeatherSystem, WeatherId, WeatherMode, DEFAULT_WEATHER_MODE } from './Weather';
+import {
+  PowerUpManager,
+  PowerUpType,
+  ActivePowerUp,
+  REPAIR_AMOUNT,
+  SCORE_MULTIPLIER,
+  SLOW_MOTION_TIME_SCALE,
+  MAGNET_RADIUS,
+  MAGNET_PULL_SPEED
+} from './PowerUpManager';
+import { ReplayRecorder, ReplayPlayer, ReplayData } from './ReplaySystem';
+import { GhostRecorder, GhostTrack, GhostRecording } from './GhostCar';
+import { ThreeUtils } from '../utils/three-utils';
+
+export interface GameStats {
+  score: number;
+  distance: number;
+  speed: number;
+  health: number;
+  maxHealth: number;
+  lives: number;
+  combo: number;
+  obstaclesAvoided: number;
+  timeElapsed: number;
+  level: number;
+  nearMisses: number;
+  nitro: number; // Boost meter 0-1
+  isBoosting: boolean;
+  isDrifting: boolean;
+  drifts: number;
+  lastDriftBonus: number; // Style points from the most recent drift
+  powerUps: ActivePowerUp[];
+  lastNearMissBonus: number; // Points from the most recent near miss
+  ghostDelta: number | null; // Seconds behind (+) or ahead (-) of the ghost at the same distance
+  weather: WeatherId;
+}
+
+export interface SimulationOptions {
+  scene?: THREE.Scene; // Scene to place meshes in; a private one is created when omitted
+  seed?: number; // Fixed course seed for every run (random per run when omitted)
+  controls?: ControlSettings;
+  damage?: Partial<DamageSettings>;
+  carId?: CarId; // Roster car for live runs (replays use their recorded one)
+  vehicle?: Partial<VehicleSpec>; // Handling overrides applied on top of the car's spec
+  livery?: Livery | null; // Paint for live runs; null = the car's factory paint
+  physicsModel?: PhysicsModel; // Handling model for live runs (replays use their recorded one)
+  weather?: WeatherMode; // Weather for live runs (replays use their recorded one)
+}
+
+export class Simulation {
+  /** Seconds of game time advanced by one step() */
+  static readonly FIXED_TIMESTEP = 1 / 120;
+
+  private scene: THREE.Scene;
+  private carMesh: THREE.Group;
+  private controls: ControlSettings;
+  private physicsModel: PhysicsModel;
+  private weatherMode: WeatherMode;
+  private carId: CarId;
+  private livery: Livery | null;
+  private meshCarId: CarId; // Roster car and paint the current mesh was built with
+  private meshLivery: Livery | null;
+  private vehicleOverrides: Partial<VehicleSpec>;
+
+  private carController: CarController;
+  private obstacleManager: ObstacleManager;
+  private collisionDetector: CollisionDetector;
+  private scoreManager: ScoreManager;
+  private damageModel: DamageModel;
+  private powerUps: PowerUpManager;
+  private roadPath: RoadPath;
+  private weather: WeatherSystem;
+
+  // Curves push the car toward their outside edge, scaled by speed squared
+  private readonly CORNERING_FORCE = 0.6;
+
+  private stats: GameStats;
+  private tick: number = 0;
+  private gameOver: boolean = false;
+
+  // Nitro refills from clean driving and near misses
+  private cleanDrivingTime: number = 0;
+  private readonly NITRO_CLEAN_DELAY = 3; // Seconds without a hit before the meter refills
+  private readonly NITRO_CLEAN_RATE = 0.05; // Meter per second of clean driving
+  private readonly NITRO_NEAR_MISS = 0.15; // Meter per near miss, scaled by closeness
+
+  // Drift in progress; style points are paid when it ends without a crash
+  private driftTime: number = 0;
+  private driftAngle: number = 0; // Slip angle integrated over the drift
+  private readonly DRIFT_MIN_TIME = 0.5; // Seconds before a slide counts
+
+  // Every run is recorded; a player replaces live input during playback
+  private recorder: ReplayRecorder = new ReplayRecorder();
+  private replayPlayer: ReplayPlayer | null = null;
+  private lastReplay: ReplayData | null = null;
+
+  // Car poses of live runs are kept so the best one can be raced as a ghost
+  private ghostRecorder: GhostRecorder = new GhostRecorder();
+  private ghostTrack: GhostTrack | null = null;
+  private lastGhost: GhostRecording | null = null;
+
+  // Event callbacks
+  private onCollision?: (obstacle: ObstacleData, damage: number) => void;
+  private onLevelUp?: (level: number) => void;
+  private onMilestone?: (milestone: string) => void;
+  private onNearMiss?: (nearMiss: NearMissResult, bonus: number) => void;
+  private onPowerUp?: (type: PowerUpType) => void;
+  private onDrift?: (bonus: number) => void;
+  private onGameOver?: (finalStats: GameStats) => void;
+
+  constructor(options: SimulationOptions = {}) {
+    this.scene = options.scene ?? new THREE.Scene();
+    this.controls = options.controls ?? {
+      sensitivity: 1.0,
+      invertSteering: false
+    };
+    this.physicsModel = options.physicsModel ?? DEFAULT_PHYSICS_MODEL;
+    this.weatherMode = options.weather ?? DEFAULT_WEATHER_MODE;
+    this.carId = options.carId ?? DEFAULT_CAR_ID;
+    this.livery = options.livery ?? null;
+    this.meshCarId = this.carId;
+    this.meshLivery = null;
+    this.vehicleOverrides = options.vehicle ?? {};
+
+    this.carMesh = ThreeUtils.createCarGeometry(getCarDefinition(this.carId).body);
+    this.scene.add(this.carMesh);
+
+    this.carController = new CarController();
+    this.obstacleManager = new ObstacleManager();
+    this.collisionDetector = new CollisionDetector();
+    this.scoreManager = new ScoreManager();
+
+    const damage = { ...DEFAULT_DAMAGE_SETTINGS, ...options.damage };
+    this.damageModel = new DamageModel(damage.maxHealth);
+    this.scoreManager.setMaxLives(damage.lives);
+    this.powerUps = new PowerUpManager();
+    this.roadPath = new RoadPath(options.seed);
+    this.weather = new WeatherSystem();
+    this.applyCar(this.carId, this.livery);
+
+    if (options.seed !== undefined) {
+      this.obstacleManager.setSeed(options.seed);
+    }
+
+    // Cleared patterns feed the combo system
+    this.obstacleManager.setObstacleAvoidedCallback((pattern, difficulty) => {
+      this.scoreManager.awardObstacleAvoidance(pattern, difficulty);
+    });
+
+    this.stats = this.createInitialStats();
+  }
+
+  /**
+   * Initialize all game systems
+   */
+  async initialize(): Promise<void> {
+    await this.carController.initialize(this.carMesh, this.controls);
+    await this.obstacleManager.initialize(this.scene);
+    this.roadPath.reset(this.obstacleManager.getSeed());
+    this.weather.reset(this.weatherMode, this.obstacleManager.getSeed());
+    await this.collisionDetector.initialize();
+    await this.scoreManager.initialize();
+    console.log('Simulation initialized');
+  }
+
+  private createInitialStats(): GameStats {
+    return {
+      score: 0,
+      distance: 0,
+      speed: 0,
+      health: this.damageModel.getMaxHealth(),
+      maxHealth: this.damageModel.getMaxHealth(),
+      lives: this.scoreManager.getMaxLives(),
+      combo: 0,
+      obstaclesAvoided: 0,
+      timeElapsed: 0,
+      level: 1,
+      nearMisses: 0,
+      nitro: 1,
+      isBoosting: false,
+      isDrifting: false,
+      drifts: 0,
+      lastDriftBonus: 0,
+      powerUps: [],
+      lastNearMissBonus: 0,
+      ghostDelta: null,
+      weather: this.weather.getCurrent().id
+    };
+  }
+
+  /**
+   * Start a fresh run, optionally on a specific seeded course
+   */
+  reset(seed?: number): void {
+    this.replayPlayer = null;
+    this.carController.setSensitivity(this.controls.sensitivity);
+    this.carController.setPhysicsModel(this.physicsModel);
+    this.applyCar(this.carId, this.livery);
+    this.resetSystems(seed, this.weatherMode);
+    this.recorder.start(
+      this.getSeed(),
+      Simulation.FIXED_TIMESTEP,
+      this.controls.sensitivity,
+      this.physicsModel,
+      this.carId,
+      this.livery,
+      this.weatherMode
+    );
+    this.ghostRecorder.start(this.getSeed(), Simulation.FIXED_TIMESTEP, this.carId, this.livery);
+  }
+
+  /**
+   * Start playing back a recorded run; live input is ignored until it ends
+   */
+  playReplay(replay: ReplayData): void {
+    if (Math.abs(replay.timestep - Simulation.FIXED_TIMESTEP) > 1e-9) {
+      throw new Error(`Replay timestep ${replay.timestep}s does not match simulation timestep`);
+    }
+
+    this.recorder.finish(this.tick, null);
+    this.ghostRecorder.cancel();
+    this.carController.setSensitivity(replay.sensitivity);
+    this.carController.setPhysicsModel(replay.physicsModel);
+    this.applyCar(replay.carId, replay.livery);
+    this.resetSystems(replay.seed, replay.weather);
+    this.replayPlayer = new ReplayPlayer(replay);
+  }
+
+  /**
+   * Put a roster car on the road: rebuild and paint its mesh if needed and load its handling
+   */
+  private applyCar(id: CarId, livery: Livery | null): void {
+    const car = getCarDefinition(id);
+
+    if (car.id !== this.meshCarId || livery !== this.meshLivery) {
+      this.scene.remove(this.carMesh);
+      ThreeUtils.dispose(this.carMesh);
+      this.carMesh = ThreeUtils.createCarGeometry(car.body);
+      if (livery) {
+        ThreeUtils.applyLivery(this.carMesh, livery);
+      }
+      this.scene.add(this.carMesh);
+      this.carController.setCarMesh(this.carMesh);
+      this.meshCarId = car.id;
+      this.meshLivery = livery;
+    }
+
+    const spec = { ...car.spec, ...this.vehicleOverrides };
+    this.carController.setVehicleSpec(spec);
+    this.scoreManager.setBoostSpeedThreshold(spec.maxSpeed);
+  }
+
+  /**
+   * Push the car toward the outside of the curve it is driving through
+   */
+  private applyCornering(deltaTime: number): void {
+    const speed = this.carController.getSpeed();
+    const curvature = this.roadPath.getCurvature(-this.carController.getPosition().z);
+
+    // Left-hand curves (positive curvature) push right, toward +x
+    this.carController.applyLateralDrift(curvature * speed * speed * this.CORNERING_FORCE * deltaTime);
+  }
+
+  private resetSystems(seed: number | undefined, weather: WeatherMode): void {
+    this.stats = this.createInitialStats();
+    this.tick = 0;
+    this.gameOver = false;
+    this.cleanDrivingTime = 0;
+    this.driftTime = 0;
+    this.driftAngle = 0;
+
+    this.carController.reset();
+    this.obstacleManager.reset(seed);
+    this.roadPath.reset(this.obstacleManager.getSeed());
+    this.weather.reset(weather, this.obstacleManager.getSeed());
+    this.stats.weather = this.weather.getCurrent().id;
+    this.collisionDetector.reset();
+    this.scoreManager.reset();
+    this.damageModel.reset();
+    this.powerUps.reset();
+  }
+
+  /**
+   * Set a key state for the next steps (synthetic or forwarded keyboard input)
+   */
+  setKeyState(code: string, pressed: boolean): void {
+    if (this.replayPlayer) return;
+
+    // Only state changes are recorded, so key auto-repeat costs nothing
+    if (this.carController.getKeyState(code) !== pressed) {
+      this.recorder.record(this.tick, code, pressed);
+    }
+    this.carController.setKeyState(code, pressed);
+  }
+
+  /**
+   * Release all held keys
+   */
+  clearInput(): void {
+    if (this.replayPlayer) return;
+
+    for (const code of this.carController.getPressedKeys()) {
+      this.recorder.record(this.tick, code, false);
+    }
+    this.carController.clearKeys();
+  }
+
+  /**
+   * Advance the simulation by one fixed step
+   */
+  step(): void {
+    if (this.gameOver) return;
+
+    const deltaTime = Simulation.FIXED_TIMESTEP;
+
+    // Feed recorded input scheduled for this tick
+    if (this.replayPlayer) {
+      for (const event of this.replayPlayer.consumeEvents(this.tick)) {
+        this.carController.setKeyState(event.code, event.pressed);
+      }
+    }
+
+    this.tick++;
+
+    // Power-up timers run in real time; slow motion only scales the world
+    this.updatePowerUps(deltaTime);
+    const worldDelta = this.powerUps.isActive('slow_motion')
+      ? deltaTime * SLOW_MOTION_TIME_SCALE
+      : deltaTime;
+
+    // Weather sets how much grip the road gives this step
+    this.weather.update(deltaTime);
+    this.stats.weather = this.weather.getCurrent().id;
+    this.carController.setSurfaceGrip(this.weather.getGrip());
+
+    // Update game systems
+    this.carController.update(worldDelta);
+    this.applyCornering(worldDelta);
+    this.obstacleManager.update(worldDelta, this.carController.getPosition());
+    if (this.powerUps.isActive('magnet')) {
+      this.obstacleManager.attractPickups(
+        this.carController.getPosition(),
+        MAGNET_RADIUS,
+        MAGNET_PULL_SPEED,
+        worldDelta
+      );
+    }
+
+    this.scoreManager.update(worldDelta, this.carController.getSpeed());
+    this.stats.speed = this.carController.getSpeed();
+    this.ghostRecorder.record(this.tick, this.carController.getPosition(), this.carController.getRotation());
+    this.updateGhostDelta();
+
+    // Check collisions
+    const carBoundingBox = this.carController.getBoundingBox();
+    const obstacles = this.obstacleManager.getObstacles();
+
+    for (const obstacle of obstacles) {
+      if (this.collisionDetector.checkBoxCollision(carBoundingBox, obstacle.boundingBox)) {
+        this.handleCollision(obstacle, carBoundingBox);
+        break;
+      }
+    }
+
+    for (const pickup of this.obstacleManager.getPickups()) {
+      if (this.collisionDetector.checkBoxCollision(carBoundingBox, pickup.boundingBox)) {
+        this.collectPickup(pickup);
+      }
+    }
+
+    // Close shaves that ended without contact earn a bonus
+    const nearMisses = this.collisionDetector.updateNearMisses(
+      carBoundingBox,
+      this.carController.getPosition(),
+      this.obstacleManager.getObstacles()
+    );
+    for (const nearMiss of nearMisses) {
+      this.handleNearMiss(nearMiss);
+    }
+
+    this.updateDrift(worldDelta);
+    this.updateNitroRefill(worldDelta);
+
+    // ScoreManager owns score, distance, lives and combos
+    this.syncScoreStats();
+    this.stats.powerUps = this.powerUps.getActivePowerUps();
+    this.stats.nitro = this.carController.getNitro();
+    this.stats.isBoosting = this.carController.isBoosting();
+
+    for (const milestone of this.scoreManager.checkMilestones()) {
+      if (this.onMilestone) {
+        this.onMilestone(milestone);
+      }
+    }
+
+    // Check for level progression (obstacle density already ramps with course distance)
+    const newLevel = Math.floor(this.stats.distance / 1000) + 1;
+    if (newLevel > this.stats.level) {
+      this.stats.level = newLevel;
+      if (this.onLevelUp) {
+        this.onLevelUp(newLevel);
+      }
+    }
+
+    // Check game over condition (a replay also ends where its recording stopped)
+    if (this.stats.lives <= 0 || (this.replayPlayer && this.replayPlayer.isFinished(this.tick))) {
+      this.finishRun();
+    }
+  }
+
+  /**
+   * End the current run early (e.g. player quit) and keep its replay
+   */
+  endRun(): void {
+    if (!this.gameOver) {
+      this.finishRun();
+    }
+  }
+
+  private finishRun(): void {
+    this.gameOver = true;
+
+    // End-of-run bonuses replace the running score
+    this.syncScoreStats();
+    this.stats.score = this.scoreManager.calculateFinalScore();
+
+    if (this.replayPlayer) {
+      this.verifyReplay(this.replayPlayer.getReplay());
+    } else {
+      this.scoreManager.checkHighScore();
+      this.lastReplay = this.recorder.finish(this.tick, { ...this.stats });
+      this.lastGhost = this.ghostRecorder.finish(this.stats.score);
+    }
+
+    if (this.onGameOver) {
+      this.onGameOver({ ...this.stats });
+    }
+  }
+
+  private syncScoreStats(): void {
+    this.stats.score = this.scoreManager.getScore();
+    this.stats.distance = this.scoreManager.getDistance();
+    this.stats.lives = this.scoreManager.getLives();
+    this.stats.health = this.damageModel.getHealth();
+    this.stats.maxHealth = this.damageModel.getMaxHealth();
+    this.stats.combo = this.scoreManager.getCombo();
+    this.stats.obstaclesAvoided = this.scoreManager.getObstaclesAvoided();
+    this.stats.timeElapsed = this.scoreManager.getTimeSurvived();
+  }
+
+  /**
+   * Warn when playback did not reproduce the recorded result
+   */
+  private verifyReplay(replay: ReplayData): void {
+    const expected = replay.finalStats;
+    if (!expected) return;
+
+    if (this.tick !== replay.endTick || expected.score !== this.stats.score ||
+        expected.distance !== this.stats.distance) {
+      console.warn(
+        `Replay desynced: expected score ${expected.score} at tick ${replay.endTick}, ` +
+        `got ${this.stats.score} at tick ${this.tick}`
+      );
+    }
+  }
+
+  /**
+   * Set the ghost run to race against, or null for none
+   */
+  setGhostTrack(track: GhostTrack | null): void {
+    this.ghostTrack = track;
+    this.updateGhostDelta();
+  }
+
+  /**
+   * Compare run time with the ghost's time at the car's current progress
+   */
+  private updateGhostDelta(): void {
+    if (!this.ghostTrack || this.tick === 0) {
+      this.stats.ghostDelta = null;
+      return;
+    }
+
+    const progress = -this.carController.getPosition().z;
+    const ghostTime = this.ghostTrack.getTimeAtProgress(progress);
+    this.stats.ghostDelta = ghostTime === null ? null : this.tick * Simulation.FIXED_TIMESTEP - ghostTime;
+  }
+
+  /**
+   * Advance the simulation by several fixed steps; returns the number taken
+   */
+  run(steps: number): number {
+    let taken = 0;
+    while (taken < steps && !this.gameOver) {
+      this.step();
+      taken++;
+    }
+    return taken;
+  }
+
+  private handleCollision(obstacle: ObstacleData, carBoundingBox: THREE.Box3): void {
+    // A shield smashes through without damage or breaking the combo
+    if (this.powerUps.isActive('shield')) {
+      this.collisionDetector.cancelNearMiss(obstacle);
+      this.obstacleManager.registerHit(obstacle);
+      if (this.onCollision) {
+        this.onCollision(obstacle, 0);
+      }
+      return;
+    }
+
+    // Damage depends on closing speed against the (possibly moving) obstacle
+    const impact = this.collisionDetector.analyzeImpact(carBoundingBox, obstacle);
+    const relativeVelocity = this.carController.getVelocity();
+    if (obstacle.speed && obstacle.direction) {
+      relativeVelocity.addScaledVector(obstacle.direction, -obstacle.speed);
+    }
+
+    const damage = DamageModel.calculateDamage({
+      obstacleType: obstacle.type,
+      relativeVelocity,
+      impactNormal: impact.impactNormal ?? new THREE.Vector3(0, 0, 1),
+      penetration: impact.penetration ?? 0
+    }, this.carController.getVehicleSpec().maxSpeed);
+    const result = this.damageModel.applyDamage(damage);
+
+    this.scoreManager.registerCollision();
+    this.cleanDrivingTime = 0;
+
+    // A crash forfeits the drift in progress
+    this.driftTime = 0;
+    this.driftAngle = 0;
+
+    if (result.wrecked) {
+      // A wreck costs a life; the car comes back repaired while lives remain
+      if (this.scoreManager.loseLife() > 0) {
+        this.damageModel.restore();
+      }
+    }
+
+    this.collisionDetector.cancelNearMiss(obstacle);
+    this.carController.handleCollision();
+    this.obstacleManager.registerHit(obstacle);
+
+    if (this.onCollision) {
+      this.onCollision(obstacle, damage);
+    }
+  }
+
+  private updateDrift(deltaTime: number): void {
+    this.stats.isDrifting = this.carController.isDrifting();
+    if (this.stats.isDrifting) {
+      this.driftTime += deltaTime;
+      this.driftAngle += Math.abs(this.carController.getSlipAngle()) * deltaTime;
+      return;
+    }
+
+    if (this.driftTime >= this.DRIFT_MIN_TIME) {
+      const bonus = this.scoreManager.awardDrift(this.driftTime, this.driftAngle / this.driftTime);
+      this.stats.drifts = this.scoreManager.getDrifts();
+      this.stats.lastDriftBonus = bonus;
+
+      if (this.onDrift) {
+        this.onDrift(bonus);
+      }
+    }
+    this.driftTime = 0;
+    this.driftAngle = 0;
+  }
+
+  private updateNitroRefill(deltaTime: number): void {
+    this.cleanDrivingTime += deltaTime;
+    if (this.cleanDrivingTime >= this.NITRO_CLEAN_DELAY && !this.carController.isBoosting()) {
+      this.carController.addNitro(this.NITRO_CLEAN_RATE * deltaTime);
+    }
+  }
+
+  private updatePowerUps(deltaTime: number): void {
+    this.powerUps.update(deltaTime);
+    // Rough weather pays extra on top of the score power-up
+    const powerUpMultiplier = this.powerUps.isActive('multiplier') ? SCORE_MULTIPLIER : 1;
+    this.scoreManager.setScoreMultiplier(powerUpMultiplier * this.weather.getScoreMultiplier());
+  }
+
+  private collectPickup(pickup: PickupData): void {
+    this.obstacleManager.removePickup(pickup);
+
+    if (pickup.type === 'repair') {
+      // Repairing an undamaged car grants a life instead
+      if (this.damageModel.getHealth() >= this.damageModel.getMaxHealth()) {
+        this.scoreManager.gainLife();
+      } else {
+        this.damageModel.repair(REPAIR_AMOUNT);
+      }
+    } else {
+      this.powerUps.activate(pickup.type);
+    }
+
+    if (this.onPowerUp) {
+      this.onPowerUp(pickup.type);
+    }
+  }
+
+  private handleNearMiss(nearMiss: NearMissResult): void {
+    const bonus = this.scoreManager.awardNearMiss(nearMiss.closeness, this.carController.getSpeed());
+    this.stats.nearMisses = this.scoreManager.getNearMisses();
+    this.stats.lastNearMissBonus = bonus;
+    this.carController.addNitro(this.NITRO_NEAR_MISS * (0.5 + nearMiss.closeness));
+
+    if (this.onNearMiss) {
+      this.onNearMiss(nearMiss, bonus);
+    }
+  }
+
+  /**
+   * Set how close (world units) the car must pass an obstacle for a near miss
+   */
+  setNearMissMargin(margin: number): void {
+    this.collisionDetector.setNearMissMargin(margin);
+  }
+
+  /**
+   * Blend rendered car between the last two steps (alpha 0-1)
+   */
+  interpolate(alpha: number): void {
+    this.carController.interpolate(alpha);
+  }
+
+  /**
+   * Choose the roster car; takes effect from the next run
+   */
+  setCar(id: CarId): void {
+    this.carId = id;
+  }
+
+  getCarId(): CarId {
+    return this.carId;
+  }
+
+  /**
+   * Choose the paint (null = factory paint); takes effect from the next run
+   */
+  setLivery(livery: Livery | null): void {
+    this.livery = livery;
+  }
+
+  getLivery(): Livery | null {
+    return this.livery;
+  }
+
+  /**
+   * Choose the handling model; takes effect from the next run so replays stay consistent
+   */
+  setPhysicsModel(model: PhysicsModel): void {
+    this.physicsModel = model;
+  }
+
+  getPhysicsModel(): PhysicsModel {
+    return this.physicsModel;
+  }
+
+  /**
+   * Choose the weather (or dynamic weather); takes effect from the next run
+   */
+  setWeather(mode: WeatherMode): void {
+    this.weatherMode = mode;
+  }
+
+  getWeatherMode(): WeatherMode {
+    return this.weatherMode;
+  }
+
+  /**
+   * Update steering sensitivity; takes effect from the next run, since replays record it once per run
+   */
+  setSensitivity(sensitivity: number): void {
+    this.controls = { ...this.controls, sensitivity };
+  }
+
+  // Accessors
+  getStats(): GameStats {
+    return { ...this.stats };
+  }
+
+  getTick(): number {
+    return this.tick;
+  }
+
+  getSeed(): number {
+    return this.obstacleManager.getSeed();
+  }
+
+  isGameOver(): boolean {
+    return this.gameOver;
+  }
+
+  isReplaying(): boolean {
+    return this.replayPlayer !== null;
+  }
+
+  getReplayProgress(): number {
+    return this.replayPlayer ? this.replayPlayer.getProgress(this.tick) : 0;
+  }
+
+  /**
+   * Get the replay of the last finished live run
+   */
+  getLastReplay(): ReplayData | null {
+    return this.lastReplay;
+  }
+
+  /**
+   * Get the car poses of the last finished live run
+   */
+  getLastGhost(): GhostRecording | null {
+    return this.lastGhost;
+  }
+
+  /**
+   * Get the run time in seconds (whole ticks, matching ghost timing)
+   */
+  getRunTime(): number {
+    return this.tick * Simulation.FIXED_TIMESTEP;
+  }
+
+  getCarMesh(): THREE.Group {
+    return this.carMesh;
+  }
+
+  getCarController(): CarController {
+    return this.carController;
+  }
+
+  getObstacleManager(): ObstacleManager {
+    return this.obstacleManager;
+  }
+
+  getRoadPath(): RoadPath {
+    return this.roadPath;
+  }
+
+  getWeather(): WeatherSystem {
+    return this.weather;
+  }
+
+  getScoreManager(): ScoreManager {
+    return this.scoreManager;
+  }
+
+  getDamageModel(): DamageModel {
+    return this.damageModel;
+  }
+
+  getPowerUpManager(): PowerUpManager {
+    return this.powerUps;
+  }
+
+  setCollisionCallback(callback: (obstacle: ObstacleData, damage: number) => void): void {
+    this.onCollision = callback;
+  }
+
+  setLevelUpCallback(callback: (level: number) => void): void {
+    this.onLevelUp = callback;
+  }
+
+  setMilestoneCallback(callback: (milestone: string) => void): void {
+    this.onMilestone = callback;
+  }
+
+  setNearMissCallback(callback: (nearMiss: NearMissResult, bonus: number) => void): void {
+    this.onNearMiss = callback;
+  }
+
+  setPowerUpCallback(callback: (type: PowerUpType) => void): void {
+    this.onPowerUp = callback;
+  }
+
+  setDriftCallback(callback: (bonus: number) => void): void {
+    this.onDrift = callback;
+  }
+
+  setGameOverCallback(callback: (finalStats: GameStats) => void): void {
+    this.onGameOver = callback;
+  }
+
+  /**
+   * Dispose of simulation and all owned systems
+   */
+  dispose(): void {
+    this.carController.dispose();
+    this.obstacleManager.dispose();
+    this.collisionDetector.dispose();
+
+    this.scene.remove(this.carMesh);
+    ThreeUtils.dispose(this.carMesh);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,106 @@
+// Time of day system for the 3D car racing game
+import * as THREE from 'three';
+import { MathUtils } from '../utils/math-utils';
+
+export type TimeOfDayMode = 'cycle' | 'level' | 'fixed';
+
+export interface TimeOfDaySettings {
+  mode: TimeOfDayMode; // 'cycle' runs the clock with run time, 'level' jumps ahead each level
+  startHour: number; // 0-24
+}
+
+export const DEFAULT_TIME_OF_DAY: TimeOfDaySettings = {
+  mode: 'cycle',
+  startHour: 10
+};
+
+export interface DaylightState {
+  hour: number;
+  sunDirection: THREE.Vector3; // Toward the sun, or the moon at night
+  daylight: number; // 0 at night to 1 in full day, drives ambient light
+  sunlight: number; // Direct sun strength, 0 once it touches the horizon
+  moonlight: number; // Direct moon strength, 0 around dusk and dawn
+  twilight: number; // 0-1 strength of the sunrise/sunset glow
+  night: number; // 0-1, when headlights and street lamps come on
+}
+
+/**
+ * Tracks the in-game clock and derives sun position and light levels from it
+ */
+export class TimeOfDay {
+  static readonly CYCLE_HOURS_PER_SECOND = 1 / 15; // A full day in six minutes
+  static readonly LEVEL_HOURS = 3;
+  private static readonly LEVEL_TRANSITION_HOURS_PER_SECOND = 1;
+
+  private settings: TimeOfDaySettings = { ...DEFAULT_TIME_OF_DAY };
+  private hour: number = DEFAULT_TIME_OF_DAY.startHour; // Unwrapped, only ever moves forward
+
+  /**
+   * Restart the clock for a new run
+   */
+  reset(settings: TimeOfDaySettings): void {
+    this.settings = { ...settings };
+    this.hour = settings.startHour;
+  }
+
+  /**
+   * Advance the clock; run time keeps replays on the same clock as the live run
+   */
+  update(runTime: number, level: number, frameTime: number): void {
+    switch (this.settings.mode) {
+      case 'cycle':
+        this.hour = this.settings.startHour + runTime * TimeOfDay.CYCLE_HOURS_PER_SECOND;
+        break;
+      case 'level': {
+        // Ease forward to the level's hour rather than jumping
+        const target = this.settings.startHour + (level - 1) * TimeOfDay.LEVEL_HOURS;
+        const step = TimeOfDay.LEVEL_TRANSITION_HOURS_PER_SECOND * frameTime;
+        this.hour = target < this.hour ? target : Math.min(this.hour + step, target);
+        break;
+      }
+      case 'fixed':
+        this.hour = this.settings.startHour;
+        break;
+    }
+  }
+
+  /**
+   * Hour of the day, 0-24
+   */
+  getHour(): number {
+    return ((this.hour % 24) + 24) % 24;
+  }
+
+  /**
+   * Sun position and light levels for the current hour
+   */
+  getState(target: DaylightState = TimeOfDay.createState()): DaylightState {
+    const hour = this.getHour();
+
+    // The sun rises at 6:00, peaks at noon and sets at 18:00; the moon follows the same arc at night
+    const angle = ((hour - 6) / 12) * Math.PI;
+    const elevation = Math.sin(angle);
+    const arc = elevation >= 0 ? angle : angle - Math.PI;
+
+    target.hour = hour;
+    target.sunDirection.set(-Math.cos(arc), Math.max(Math.abs(elevation), 0.1), -0.4).normalize();
+    target.daylight = MathUtils.smoothStep(-0.15, 0.3, elevation);
+    target.sunlight = MathUtils.smoothStep(0, 0.25, elevation);
+    target.moonlight = MathUtils.smoothStep(0, 0.25, -elevation);
+    target.twilight = Math.max(1 - Math.abs(elevation) / 0.3, 0);
+    target.night = 1 - MathUtils.smoothStep(0.15, 0.45, target.daylight);
+    return target;
+  }
+
+  static createState(): DaylightState {
+    return {
+      hour: 0,
+      sunDirection: new THREE.Vector3(0, 1, 0),
+      daylight: 1,
+      sunlight: 1,
+      moonlight: 0,
+      twilight: 0,
+      night: 0
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,28 @@
+// Vehicle handling parameters for the 3D car racing game
+export type PhysicsModel = 'arcade' | 'simulation';
+
+export interface VehicleSpec {
+  maxSpeed: number; // units per second
+  acceleration: number; // units/s² under throttle
+  deceleration: number; // units/s² under braking (half when coasting)
+  turnSpeed: number; // Yaw rate in rad/s at full lock
+
+  // Simulation model only
+  grip: number; // Rate (1/s) at which tires cancel sideways velocity
+  handbrakeGrip: number; // Share of grip left while the handbrake is held (0-1)
+  highSpeedSteering: number; // Share of steering kept at top speed (0-1)
+  weightTransfer: number; // How much braking sharpens and throttle dulls steering (0-1)
+}
+
+export const DEFAULT_VEHICLE_SPEC: VehicleSpec = {
+  maxSpeed: 25,
+  acceleration: 15,
+  deceleration: 10,
+  turnSpeed: 2.5,
+  grip: 25,
+  handbrakeGrip: 0.15,
+  highSpeedSteering: 0.6,
+  weightTransfer: 0.3
+};
+
+export const DEFAULT_PHYSICS_MODEL: PhysicsModel = 'arcade';
\ No newline at end of file
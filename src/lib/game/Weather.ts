@@ -0,0 +1,197 @@
+// Weather system for the 3D car racing game
+import { MathUtils, SeededRandom } from '../utils/math-utils';
+
+export type WeatherId = 'clear' | 'rain' | 'fog' | 'snow';
+export type WeatherMode = WeatherId | 'dynamic'; // 'dynamic' changes weather during the run
+
+export interface WeatherParticles {
+  count: number;
+  color: number;
+  size: number; // World units
+  opacity: number;
+  fallSpeed: number; // Units per second
+  sway: number; // Sideways wander, units
+  shape: 'streak' | 'flake' | 'cloud';
+}
+
+export interface WeatherDefinition {
+  id: WeatherId;
+  name: string;
+  description: string;
+  grip: number; // Share of tire grip left (0-1)
+  visibility: number; // Share of the biome's fog distance left (0-1)
+  wetness: number; // How wet and glossy the road gets (0-1)
+  overcast: number; // How much the sky greys and the sun dims (0-1)
+  tint: number; // Sky and fog color when fully overcast
+  scoreMultiplier: number; // Reward for driving in it
+  particles: WeatherParticles | null;
+}
+
+export const WEATHERS: Record<WeatherId, WeatherDefinition> = {
+  clear: {
+    id: 'clear',
+    name: 'Clear',
+    description: 'Dry road and full visibility',
+    grip: 1,
+    visibility: 1,
+    wetness: 0,
+    overcast: 0,
+    tint: 0xb0c4d8,
+    scoreMultiplier: 1,
+    particles: null
+  },
+  rain: {
+    id: 'rain',
+    name: 'Rain',
+    description: 'Slick, glossy asphalt and spray',
+    grip: 0.7,
+    visibility: 0.6,
+    wetness: 1,
+    overcast: 0.7,
+    tint: 0x7d868f,
+    scoreMultiplier: 1.25,
+    particles: { count: 4000, color: 0xaec2d6, size: 0.9, opacity: 0.55, fallSpeed: 28, sway: 0.3, shape: 'streak' }
+  },
+  fog: {
+    id: 'fog',
+    name: 'Fog',
+    description: 'Thick banks that hide the road ahead',
+    grip: 0.9,
+    visibility: 0.25,
+    wetness: 0.3,
+    overcast: 0.8,
+    tint: 0xc3c8cc,
+    scoreMultiplier: 1.3,
+    particles: { count: 160, color: 0xdde2e6, size: 24, opacity: 0.18, fallSpeed: 0.4, sway: 3, shape: 'cloud' }
+  },
+  snow: {
+    id: 'snow',
+    name: 'Snow',
+    description: 'Icy road and drifting flakes',
+    grip: 0.55,
+    visibility: 0.45,
+    wetness: 0.5,
+    overcast: 0.6,
+    tint: 0xdfe5ec,
+    scoreMultiplier: 1.4,
+    particles: { count: 3000, color: 0xffffff, size: 0.35, opacity: 0.9, fallSpeed: 3, sway: 1.2, shape: 'flake' }
+  }
+};
+
+export const WEATHER_ORDER: WeatherId[] = ['clear', 'rain', 'fog', 'snow'];
+
+export const DEFAULT_WEATHER_MODE: WeatherMode = 'clear';
+
+/**
+ * Check a weather mode read from untrusted data (replay files)
+ */
+export function isWeatherMode(value: unknown): value is WeatherMode {
+  return value === 'dynamic' || WEATHER_ORDER.includes(value as WeatherId);
+}
+
+/**
+ * Gameplay side of the weather: which weather is active, how far a change
+ * has blended in and the grip and score modifiers that follow from it.
+ * Dynamic weather is scheduled from the course seed, so replays see the same skies
+ */
+export class WeatherSystem {
+  private static readonly MIN_SPELL = 40; // Seconds between dynamic changes
+  private static readonly MAX_SPELL = 80;
+  private static readonly TRANSITION_TIME = 6; // Seconds for a change to blend in
+  private static readonly SEED_SALT = 0x68e31da4;
+
+  private mode: WeatherMode = DEFAULT_WEATHER_MODE;
+  private rng: SeededRandom = new SeededRandom(0);
+  private current: WeatherDefinition = WEATHERS.clear;
+  private previous: WeatherDefinition = WEATHERS.clear;
+  private blend: number = 1; // 0 = previous weather, 1 = current
+  private time: number = 0;
+  private nextChange: number = Infinity;
+
+  /**
+   * Start a run's weather; dynamic weather opens clear and changes on a seeded schedule
+   */
+  reset(mode: WeatherMode, seed: number): void {
+    this.mode = mode;
+    this.rng = new SeededRandom((seed ^ WeatherSystem.SEED_SALT) >>> 0);
+    this.current = WEATHERS[mode === 'dynamic' ? 'clear' : mode];
+    this.previous = this.current;
+    this.blend = 1;
+    this.time = 0;
+    this.nextChange = mode === 'dynamic' ? this.rollSpell() : Infinity;
+  }
+
+  private rollSpell(): number {
+    return this.rng.range(WeatherSystem.MIN_SPELL, WeatherSystem.MAX_SPELL);
+  }
+
+  /**
+   * Advance the weather by one simulation step
+   */
+  update(deltaTime: number): void {
+    this.time += deltaTime;
+
+    if (this.time >= this.nextChange) {
+      const choices = WEATHER_ORDER.filter(id => id !== this.current.id);
+      this.previous = this.current;
+      this.current = WEATHERS[this.rng.pick(choices)];
+      this.blend = 0;
+      this.nextChange += this.rollSpell();
+    }
+
+    if (this.blend < 1) {
+      this.blend = Math.min(this.blend + deltaTime / WeatherSystem.TRANSITION_TIME, 1);
+    }
+  }
+
+  /**
+   * Blend a weather property between the previous and current weather
+   */
+  private mix(property: (weather: WeatherDefinition) => number): number {
+    if (this.blend >= 1) return property(this.current);
+    return MathUtils.lerp(property(this.previous), property(this.current), this.blend);
+  }
+
+  getGrip(): number {
+    return this.mix(weather => weather.grip);
+  }
+
+  getVisibility(): number {
+    return this.mix(weather => weather.visibility);
+  }
+
+  getWetness(): number {
+    return this.mix(weather => weather.wetness);
+  }
+
+  getOvercast(): number {
+    return this.mix(weather => weather.overcast);
+  }
+
+  getScoreMultiplier(): number {
+    return this.mix(weather => weather.scoreMultiplier);
+  }
+
+  /**
+   * How strongly a weather is showing right now (0-1)
+   */
+  getWeight(id: WeatherId): number {
+    return (this.current.id === id ? this.blend : 0) + (this.previous.id === id ? 1 - this.blend : 0);
+  }
+
+  getCurrent(): WeatherDefinition {
+    return this.current;
+  }
+
+  getPrevious(): WeatherDefinition {
+    return this.previous;
+  }
+
+  getBlend(): number {
+    return this.blend;
+  }
+
+  getMode(): WeatherMode {
+    return this.mode;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,180 @@
+// Weather particle rendering for the 3D car racing game
+import * as THREE from 'three';
+import { ThreeUtils } from '../utils/three-utils';
+import { WEATHERS, WEATHER_ORDER, WeatherId, WeatherParticles, WeatherSystem } from './Weather';
+
+const SHAPES: Record<WeatherParticles['shape'], number> = { streak: 0, flake: 1, cloud: 2 };
+
+const VERTEX_SHADER = /* glsl */ `
+  uniform float uTime;
+  uniform vec3 uOrigin;
+  uniform vec3 uBox;
+  uniform float uFallSpeed;
+  uniform float uSway;
+  uniform float uSize;
+  uniform float uScale;
+  varying float vFade;
+
+  void main() {
+    // Per-particle phase from its start position, so no extra attribute is needed
+    float phase = fract(sin(dot(position, vec3(12.9898, 78.233, 37.719))) * 43758.5453) * 6.2832;
+
+    vec3 p = position;
+    p.y -= uFallSpeed * uTime;
+    p.x += sin(uTime * 0.7 + phase) * uSway;
+    p.z += cos(uTime * 0.5 + phase) * uSway;
+
+    // Wrap into a box that travels with the camera
+    p = uOrigin + mod(p - uOrigin, uBox) - uBox * 0.5;
+
+    vec4 mvPosition = modelViewMatrix * vec4(p, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    gl_PointSize = uSize * uScale / -mvPosition.z;
+
+    // Fade toward the box walls so wrapped particles never pop
+    vec3 edge = abs(p - uOrigin) / (uBox * 0.5);
+    vFade = 1.0 - smoothstep(0.7, 1.0, max(edge.x, max(edge.y, edge.z)));
+  }
+`;
+
+const FRAGMENT_SHADER = /* glsl */ `
+  uniform vec3 uColor;
+  uniform float uOpacity;
+  varying float vFade;
+
+  void main() {
+    vec2 c = gl_PointCoord - 0.5;
+    #if SHAPE == 0
+      float alpha = (1.0 - smoothstep(0.02, 0.06, abs(c.x))) * (1.0 - smoothstep(0.3, 0.5, abs(c.y)));
+    #elif SHAPE == 1
+      float alpha = 1.0 - smoothstep(0.25, 0.5, length(c));
+    #else
+      float alpha = 1.0 - smoothstep(0.0, 0.5, length(c));
+    #endif
+
+    alpha *= uOpacity * vFade;
+    if (alpha < 0.01) discard;
+    gl_FragColor = vec4(uColor, alpha);
+
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }
+`;
+
+/**
+ * Rain, snow and fog banks as GPU particles: positions are uploaded once
+ * and the vertex shader makes them fall, sway and wrap around the camera
+ */
+export class WeatherRenderer {
+  private readonly PRECIPITATION_BOX = new THREE.Vector3(80, 40, 80);
+  private readonly FOG_BANK_BOX = new THREE.Vector3(320, 24, 320);
+
+  private scene: THREE.Scene;
+  private systems: Map<WeatherId, THREE.Points> = new Map();
+  private enabled: boolean = true;
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+
+    for (const id of WEATHER_ORDER) {
+      const particles = WEATHERS[id].particles;
+      if (particles) {
+        const system = this.createSystem(particles);
+        this.systems.set(id, system);
+        this.scene.add(system);
+      }
+    }
+  }
+
+  private createSystem(particles: WeatherParticles): THREE.Points {
+    const box = particles.shape === 'cloud' ? this.FOG_BANK_BOX : this.PRECIPITATION_BOX;
+    const system = ThreeUtils.createParticleSystem({
+      count: particles.count,
+      spread: box,
+      size: particles.size,
+      color: particles.color
+    });
+
+    (system.material as THREE.Material).dispose();
+    system.material = new THREE.ShaderMaterial({
+      uniforms: {
+        uTime: { value: 0 },
+        uOrigin: { value: new THREE.Vector3() },
+        uBox: { value: box },
+        uFallSpeed: { value: particles.fallSpeed },
+        uSway: { value: particles.sway },
+        uSize: { value: particles.size },
+        uScale: { value: 400 },
+        uColor: { value: new THREE.Color(particles.color) },
+        uOpacity: { value: 0 }
+      },
+      defines: { SHAPE: SHAPES[particles.shape] },
+      vertexShader: VERTEX_SHADER,
+      fragmentShader: FRAGMENT_SHADER,
+      transparent: true,
+      depthWrite: false
+    });
+
+    // The shader moves every particle, so the geometry's bounds mean nothing
+    system.frustumCulled = false;
+    system.renderOrder = 2;
+    return system;
+  }
+
+  /**
+   * Turn weather particles on or off (graphics setting); the road effects stay
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (!enabled) {
+      this.systems.forEach(system => system.visible = false);
+    }
+  }
+
+  /**
+   * Draw only a share (0-1) of every weather's particles; the rest stay uploaded
+   */
+  setDensity(density: number): void {
+    this.systems.forEach((system, id) => {
+      const count = WEATHERS[id].particles!.count;
+      system.geometry.setDrawRange(0, Math.max(Math.round(count * density), 1));
+    });
+  }
+
+  /**
+   * Match point sizes to the drawing buffer height in pixels
+   */
+  setViewportHeight(height: number): void {
+    this.systems.forEach(system => {
+      (system.material as THREE.ShaderMaterial).uniforms.uScale.value = height / 2;
+    });
+  }
+
+  /**
+   * Show each weather's particles as strongly as it is blended in,
+   * dimmed with the light level (0-1)
+   */
+  update(weather: WeatherSystem, origin: THREE.Vector3, time: number, light: number): void {
+    this.systems.forEach((system, id) => {
+      const weight = weather.getWeight(id);
+      system.visible = this.enabled && weight > 0;
+      if (!system.visible) return;
+
+      const particles = WEATHERS[id].particles!;
+      const uniforms = (system.material as THREE.ShaderMaterial).uniforms;
+      uniforms.uTime.value = time;
+      uniforms.uOrigin.value.copy(origin);
+      uniforms.uOpacity.value = particles.opacity * weight;
+      uniforms.uColor.value.set(particles.color).multiplyScalar(light);
+    });
+  }
+
+  dispose(): void {
+    this.systems.forEach(system => {
+      this.scene.remove(system);
+      system.geometry.dispose();
+      (system.material as THREE.Material).dispose();
+    });
+    this.systems.clear();
+  }
+}
\ No newline at end of file
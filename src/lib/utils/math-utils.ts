@@ -1,6 +1,84 @@
 // Mathematical utility functions for 3D car racing game
 import * as THREE from 'three';
 
+/**
+ * Source of uniformly distributed numbers in [0, 1), compatible with Math.random
+ */
+export type RandomGenerator = () => number;
+
+/**
+ * Seedable pseudo-random number generator (mulberry32)
+ */
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Next number in [0, 1); bound so it can be passed as a RandomGenerator
+   */
+  next: RandomGenerator = () => {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  /**
+   * Random number between min and max
+   */
+  range(min: number, max: number): number {
+    return MathUtils.random(min, max, this.next);
+  }
+
+  /**
+   * Random integer between min and max (inclusive)
+   */
+  int(min: number, max: number): number {
+    return MathUtils.randomInt(min, max, this.next);
+  }
+
+  /**
+   * Pick a random element from a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+
+  /**
+   * Restart the sequence from the original seed
+   */
+  reset(): void {
+    this.state = this.seed;
+  }
+
+  /**
+   * Get the seed this generator was created with
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Get internal state for snapshotting
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  /**
+   * Restore internal state from a snapshot
+   */
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
 export class MathUtils {
   /**
    * Clamp a value between min and max
@@ -52,15 +130,34 @@ export class MathUtils {
   /**
    * Generate random number between min and max
    */
-  static random(min: number, max: number): number {
-    return Math.random() * (max - min) + min;
+  static random(min: number, max: number, rng: RandomGenerator = Math.random): number {
+    return rng() * (max - min) + min;
   }
 
   /**
    * Generate random integer between min and max (inclusive)
    */
-  static randomInt(min: number, max: number): number {
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+  static randomInt(min: number, max: number, rng: RandomGenerator = Math.random): number {
+    return Math.floor(rng() * (max - min + 1)) + min;
+  }
+
+  /**
+   * Generate a fresh random 32-bit seed
+   */
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+  }
+
+  /**
+   * Hash a string (e.g. a date for daily challenges) into a 32-bit seed (FNV-1a)
+   */
+  static hashSeed(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
   }
 
   /**
@@ -1,77 +1,165 @@
 // Three.js utility functions for the 3D car racing game
 import * as THREE from 'three';
+import type { Livery } from '../game/Livery';
+
+export interface CarBodyStyle {
+  width: number; // Chassis box dimensions
+  length: number;
+  height: number;
+  roofHeight: number;
+  color: number;
+  roofColor: number;
+}
+
+export const DEFAULT_CAR_BODY: CarBodyStyle = {
+  width: 2,
+  length: 4,
+  height: 0.6,
+  roofHeight: 0.4,
+  color: 0x2196f3,
+  roofColor: 0x1976d2
+};
+
+export type RoadsidePropType =
+  | 'marker_post'
+  | 'guard_rail'
+  | 'street_lamp'
+  | 'tree'
+  | 'pine'
+  | 'cactus'
+  | 'rock'
+  | 'building';
+
+export interface ParticleSystemOptions {
+  count?: number;
+  spread?: THREE.Vector3; // Box the particles start in: x and z centred, y upward from 0
+  size?: number;
+  color?: THREE.ColorRepresentation; // Single color instead of random sparks
+}
+
+/**
+ * LOD whose switch distances all follow one shared scale, so a graphics
+ * preset can move every threshold at once, pooled objects included
+ */
+export class ScaledLOD extends THREE.LOD {
+  static distanceScale = 1;
+
+  private appliedScale = 1;
+
+  addLevel(object: THREE.Object3D, distance: number = 0, hysteresis: number = 0): this {
+    object.userData.lodDistance = distance; // Unscaled, to rescale from later
+    return super.addLevel(object, distance * this.appliedScale, hysteresis);
+  }
+
+  update(camera: THREE.Camera): void {
+    if (this.appliedScale !== ScaledLOD.distanceScale) {
+      this.appliedScale = ScaledLOD.distanceScale;
+      this.levels.forEach(level => {
+        level.distance = level.object.userData.lodDistance * this.appliedScale;
+      });
+    }
+    super.update(camera);
+  }
+}
+
+// Level-of-detail switch distances before the preset's scale, in world units
+const CAR_LOD_DISTANCE = 60;
+const OBSTACLE_LOD_DISTANCE = 90;
+const PROP_LOD_DISTANCE = 80;
+const LOD_HYSTERESIS = 0.1;
 
 export class ThreeUtils {
   /**
-   * Create a car geometry with proper proportions
+   * Create a car geometry with proper proportions (front faces -Z, the driving direction)
    */
-  static createCarGeometry(): THREE.Group {
+  static createCarGeometry(body: CarBodyStyle = DEFAULT_CAR_BODY): THREE.Group {
     const carGroup = new THREE.Group();
+    const detail = new THREE.Group();
+    const { width, length, height, roofHeight } = body;
 
     // Car body - main chassis
-    const bodyGeometry = new THREE.BoxGeometry(2, 0.6, 4);
+    const bodyGeometry = new THREE.BoxGeometry(width, height, length);
     const bodyMaterial = new THREE.MeshLambertMaterial({ 
-      color: 0x2196f3,
+      color: body.color,
       transparent: true,
       opacity: 0.9
     });
     const carBody = new THREE.Mesh(bodyGeometry, bodyMaterial);
     carBody.position.y = 0.5;
-    carGroup.add(carBody);
+    detail.add(carBody);
 
     // Car roof
-    const roofGeometry = new THREE.BoxGeometry(1.6, 0.4, 2);
+    const roofGeometry = new THREE.BoxGeometry(width - 0.4, roofHeight, length / 2);
     const roofMaterial = new THREE.MeshLambertMaterial({ 
-      color: 0x1976d2,
+      color: body.roofColor,
       transparent: true,
       opacity: 0.8
     });
     const carRoof = new THREE.Mesh(roofGeometry, roofMaterial);
-    carRoof.position.y = 1.0;
-    carRoof.position.z = 0.2;
-    carGroup.add(carRoof);
+    carRoof.position.y = 0.5 + height / 2 + roofHeight / 2;
+    carRoof.position.z = -length * 0.05;
+    detail.add(carRoof);
 
     // Wheels
     const wheelGeometry = new THREE.CylinderGeometry(0.3, 0.3, 0.2, 16);
     const wheelMaterial = new THREE.MeshLambertMaterial({ color: 0x333333 });
+    const wheelX = width / 2 + 0.2;
+    const wheelZ = length / 2 - 0.7;
 
     // Front wheels
     const frontLeftWheel = new THREE.Mesh(wheelGeometry, wheelMaterial);
-    frontLeftWheel.position.set(-1.2, 0.2, 1.3);
+    frontLeftWheel.position.set(-wheelX, 0.2, -wheelZ);
     frontLeftWheel.rotation.z = Math.PI / 2;
-    carGroup.add(frontLeftWheel);
+    detail.add(frontLeftWheel);
 
     const frontRightWheel = new THREE.Mesh(wheelGeometry, wheelMaterial);
-    frontRightWheel.position.set(1.2, 0.2, 1.3);
+    frontRightWheel.position.set(wheelX, 0.2, -wheelZ);
     frontRightWheel.rotation.z = Math.PI / 2;
-    carGroup.add(frontRightWheel);
+    detail.add(frontRightWheel);
 
     // Rear wheels
     const rearLeftWheel = new THREE.Mesh(wheelGeometry, wheelMaterial);
-    rearLeftWheel.position.set(-1.2, 0.2, -1.3);
+    rearLeftWheel.position.set(-wheelX, 0.2, wheelZ);
     rearLeftWheel.rotation.z = Math.PI / 2;
-    carGroup.add(rearLeftWheel);
+    detail.add(rearLeftWheel);
 
     const rearRightWheel = new THREE.Mesh(wheelGeometry, wheelMaterial);
-    rearRightWheel.position.set(1.2, 0.2, -1.3);
+    rearRightWheel.position.set(wheelX, 0.2, wheelZ);
     rearRightWheel.rotation.z = Math.PI / 2;
-    carGroup.add(rearRightWheel);
+    detail.add(rearRightWheel);
 
     // Headlights
     const headlightGeometry = new THREE.SphereGeometry(0.15, 8, 8);
     const headlightMaterial = new THREE.MeshBasicMaterial({ 
-      color: 0xffffff,
-      emissive: 0xffffcc,
-      emissiveIntensity: 0.3
+      color: 0xffffcc // Unlit, so it always reads as a light source
     });
 
     const leftHeadlight = new THREE.Mesh(headlightGeometry, headlightMaterial);
-    leftHeadlight.position.set(-0.6, 0.6, 2.1);
-    carGroup.add(leftHeadlight);
+    leftHeadlight.position.set(-width * 0.3, 0.6, -(length / 2 + 0.1));
+    leftHeadlight.name = 'headlight';
+    detail.add(leftHeadlight);
 
     const rightHeadlight = new THREE.Mesh(headlightGeometry, headlightMaterial);
-    rightHeadlight.position.set(0.6, 0.6, 2.1);
-    carGroup.add(rightHeadlight);
+    rightHeadlight.position.set(width * 0.3, 0.6, -(length / 2 + 0.1));
+    rightHeadlight.name = 'headlight';
+    detail.add(rightHeadlight);
+
+    // Distant stand-in: the painted shell on a dark slab for the running gear. The
+    // slab stays between the wheel centres however the wheels spin or steer, so
+    // the car's bounding box (and gameplay) is the same at any distance
+    const simple = new THREE.Group();
+    const simpleBody = new THREE.Mesh(bodyGeometry, bodyMaterial);
+    simpleBody.position.copy(carBody.position);
+    const simpleRoof = new THREE.Mesh(roofGeometry, roofMaterial);
+    simpleRoof.position.copy(carRoof.position);
+    const runningGear = new THREE.Mesh(new THREE.BoxGeometry((wheelX - 0.02) * 2, 0.36, (wheelZ - 0.02) * 2), wheelMaterial);
+    runningGear.position.y = 0.1;
+    simple.add(simpleBody, simpleRoof, runningGear);
+
+    const lod = new ScaledLOD();
+    lod.addLevel(detail, 0);
+    lod.addLevel(simple, CAR_LOD_DISTANCE, LOD_HYSTERESIS);
+    carGroup.add(lod);
 
     // Store wheel references for animation
     (carGroup as any).wheels = {
@@ -81,50 +169,387 @@ export class ThreeUtils {
       rearRight: rearRightWheel
     };
 
+    // Painted parts and proportions, for applyLivery
+    (carGroup as any).paint = { body: carBody, roof: carRoof, simpleBody, simpleRoof, detail, style: body };
+
     return carGroup;
   }
 
   /**
-   * Create an obstacle geometry
+   * Paint a car from createCarGeometry with a livery. Decals sit on the faces of
+   * existing parts, so the car's bounding box (and gameplay) never changes
+   */
+  static applyLivery(car: THREE.Group, livery: Livery): void {
+    const paint = (car as any).paint as {
+      body: THREE.Mesh;
+      roof: THREE.Mesh;
+      simpleBody: THREE.Mesh;
+      simpleRoof: THREE.Mesh;
+      detail: THREE.Group;
+      style: CarBodyStyle;
+    } | undefined;
+    const wheels = (car as any).wheels as Record<string, THREE.Mesh> | undefined;
+    if (!paint || !wheels) return;
+
+    const { width, length, height, roofHeight } = paint.style;
+    const roughness = 1 - livery.gloss * 0.9;
+
+    // Standard materials so metalness and gloss show
+    const repaint = (mesh: THREE.Mesh, color: number, opacity: number) => {
+      (mesh.material as THREE.Material).dispose();
+      mesh.material = new THREE.MeshStandardMaterial({
+        color,
+        metalness: livery.metalness,
+        roughness,
+        transparent: true,
+        opacity
+      });
+    };
+    repaint(paint.body, livery.bodyColor, 0.9);
+    repaint(paint.roof, livery.accentColor, 0.8);
+    paint.simpleBody.material = paint.body.material;
+    paint.simpleRoof.material = paint.roof.material;
+
+    // Replace decals and rims from any previous livery
+    const oldDecals = car.getObjectByName('livery-decals');
+    if (oldDecals) {
+      oldDecals.removeFromParent();
+      oldDecals.traverse(child => {
+        if (child instanceof THREE.Mesh) {
+          (child.material as THREE.MeshStandardMaterial).map?.dispose();
+        }
+      });
+      ThreeUtils.dispose(oldDecals);
+    }
+    Object.values(wheels).forEach(wheel => {
+      const oldRim = wheel.getObjectByName('livery-rim');
+      if (oldRim) {
+        wheel.remove(oldRim);
+        ThreeUtils.dispose(oldRim);
+      }
+    });
+
+    const decals = new THREE.Group();
+    decals.name = 'livery-decals';
+    const decalMaterial = () => new THREE.MeshStandardMaterial({
+      color: livery.accentColor,
+      metalness: livery.metalness,
+      roughness,
+      polygonOffset: true, // Drawn over the coplanar body face
+      polygonOffsetFactor: -1,
+      polygonOffsetUnits: -1
+    });
+
+    // Stripes run over the bonnet, roof and boot, or along the flanks
+    const bodyTop = 0.5 + height / 2;
+    const addTopStripe = (x: number, stripeWidth: number) => {
+      const bonnet = new THREE.Mesh(new THREE.PlaneGeometry(stripeWidth, length), decalMaterial());
+      bonnet.rotation.x = -Math.PI / 2;
+      bonnet.position.set(x, bodyTop, 0);
+      decals.add(bonnet);
+
+      const roof = new THREE.Mesh(new THREE.PlaneGeometry(stripeWidth, length / 2), decalMaterial());
+      roof.rotation.x = -Math.PI / 2;
+      roof.position.set(x, bodyTop + roofHeight, -length * 0.05);
+      decals.add(roof);
+    };
+
+    switch (livery.stripes) {
+      case 'center':
+        addTopStripe(0, width * 0.2);
+        break;
+      case 'twin':
+        addTopStripe(-width * 0.12, width * 0.1);
+        addTopStripe(width * 0.12, width * 0.1);
+        break;
+      case 'side':
+        [-1, 1].forEach(side => {
+          const stripe = new THREE.Mesh(new THREE.PlaneGeometry(length * 0.9, height * 0.25), decalMaterial());
+          stripe.rotation.y = side * Math.PI / 2;
+          stripe.position.set(side * width / 2, 0.5 - height * 0.2, 0);
+          decals.add(stripe);
+        });
+        break;
+    }
+
+    // Race number roundels on both doors (needs a canvas, so browser only)
+    if (livery.number !== null && typeof document !== 'undefined') {
+      const canvas = document.createElement('canvas');
+      canvas.width = 128;
+      canvas.height = 128;
+      const context = canvas.getContext('2d');
+      if (context) {
+        context.fillStyle = '#ffffff';
+        context.beginPath();
+        context.arc(64, 64, 60, 0, Math.PI * 2);
+        context.fill();
+        context.fillStyle = `#${livery.accentColor.toString(16).padStart(6, '0')}`;
+        context.font = 'bold 72px sans-serif';
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        context.fillText(String(livery.number), 64, 68);
+
+        const texture = new THREE.CanvasTexture(canvas);
+        texture.colorSpace = THREE.SRGBColorSpace;
+        const size = Math.min(0.5, height * 0.9);
+        [-1, 1].forEach(side => {
+          const roundel = new THREE.Mesh(
+            new THREE.PlaneGeometry(size, size),
+            new THREE.MeshStandardMaterial({
+              map: texture,
+              transparent: true,
+              polygonOffset: true,
+              polygonOffsetFactor: -2,
+              polygonOffsetUnits: -2
+            })
+          );
+          roundel.rotation.y = side * Math.PI / 2;
+          roundel.position.set(side * width / 2, 0.5, 0);
+          decals.add(roundel);
+        });
+      }
+    }
+
+    paint.detail.add(decals); // Too small to matter from a distance
+
+    // Rims sit inside the wheel cylinder (radius 0.3, axis along local Y, faces at ±0.1)
+    const rimMaterial = new THREE.MeshStandardMaterial({ color: 0xcfd8dc, metalness: 0.8, roughness: 0.3 });
+    Object.values(wheels).forEach(wheel => {
+      const rim = new THREE.Group();
+      rim.name = 'livery-rim';
+
+      [-1, 1].forEach(face => {
+        switch (livery.rimStyle) {
+          case 'solid': {
+            const disc = new THREE.Mesh(new THREE.CylinderGeometry(0.2, 0.2, 0.01, 16), rimMaterial);
+            disc.position.y = face * 0.095;
+            rim.add(disc);
+            break;
+          }
+          case 'spoked':
+            for (let i = 0; i < 5; i++) {
+              const spoke = new THREE.Mesh(new THREE.BoxGeometry(0.04, 0.01, 0.44), rimMaterial);
+              spoke.position.y = face * 0.095;
+              spoke.rotation.y = (i * Math.PI) / 5;
+              rim.add(spoke);
+            }
+            break;
+          case 'deep_dish': {
+            const lip = new THREE.Mesh(new THREE.TorusGeometry(0.22, 0.03, 8, 20), rimMaterial);
+            lip.rotation.x = Math.PI / 2;
+            lip.position.y = face * 0.07;
+            rim.add(lip);
+
+            const cap = new THREE.Mesh(new THREE.CylinderGeometry(0.07, 0.07, 0.01, 12), rimMaterial);
+            cap.position.y = face * 0.095;
+            rim.add(cap);
+            break;
+          }
+        }
+      });
+
+      wheel.add(rim);
+    });
+  }
+
+  /**
+   * Create an obstacle with a detailed near level and a cheaper opaque far
+   * level; the far level stays inside the near one's bounds, so the
+   * obstacle's bounding box (and gameplay) is the same at any distance
    */
-  static createObstacleGeometry(type: 'barrier' | 'wall' | 'cone'): THREE.Mesh {
+  static createObstacleGeometry(type: 'barrier' | 'wall' | 'cone'): THREE.LOD {
     let geometry: THREE.BufferGeometry;
-    let material: THREE.Material;
+    let farGeometry: THREE.BufferGeometry;
+    let color: number;
+    let opacity: number;
 
     switch (type) {
       case 'barrier':
         geometry = new THREE.BoxGeometry(0.5, 1, 3);
-        material = new THREE.MeshLambertMaterial({ 
-          color: 0xff5722,
-          transparent: true,
-          opacity: 0.8
-        });
+        farGeometry = geometry;
+        color = 0xff5722;
+        opacity = 0.8;
         break;
       case 'wall':
         geometry = new THREE.BoxGeometry(8, 2, 1);
-        material = new THREE.MeshLambertMaterial({ 
-          color: 0x795548,
-          transparent: true,
-          opacity: 0.9
-        });
+        farGeometry = geometry;
+        color = 0x795548;
+        opacity = 0.9;
         break;
       case 'cone':
         geometry = new THREE.ConeGeometry(0.5, 1.5, 8);
-        material = new THREE.MeshLambertMaterial({ 
-          color: 0xff9800,
-          transparent: true,
-          opacity: 0.8
-        });
+        farGeometry = new THREE.ConeGeometry(0.5, 1.5, 4);
+        color = 0xff9800;
+        opacity = 0.8;
         break;
     }
 
-    const obstacle = new THREE.Mesh(geometry, material);
+    const near = new THREE.Mesh(geometry, new THREE.MeshLambertMaterial({ color, transparent: true, opacity }));
+    if (type === 'cone') {
+      // Reflective sleeve around the middle, just proud of the cone's slope
+      const radiusAt = (y: number) => 0.51 * (0.75 - y) / 1.5;
+      const sleeve = new THREE.Mesh(
+        new THREE.CylinderGeometry(radiusAt(0.2), radiusAt(-0.1), 0.3, 8, 1, true),
+        new THREE.MeshBasicMaterial({ color: 0xf5f5f5 })
+      );
+      sleeve.position.y = 0.05;
+      near.add(sleeve);
+    }
+
+    // Far away the blending is invisible, so skip it and its sorting
+    const far = new THREE.Mesh(farGeometry, new THREE.MeshLambertMaterial({ color }));
+
+    const obstacle = new ScaledLOD();
+    obstacle.addLevel(near, 0);
+    obstacle.addLevel(far, OBSTACLE_LOD_DISTANCE, LOD_HYSTERESIS);
     obstacle.position.y = type === 'cone' ? 0.75 : 1;
     obstacle.userData.type = type;
     
     return obstacle;
   }
 
+  /**
+   * Create a floating power-up pickup (gem inside a ring)
+   */
+  static createPowerUpGeometry(color: number): THREE.Group {
+    const pickup = new THREE.Group();
+
+    const gem = new THREE.Mesh(
+      new THREE.OctahedronGeometry(0.6),
+      new THREE.MeshLambertMaterial({
+        color,
+        emissive: color,
+        emissiveIntensity: 0.6
+      })
+    );
+    pickup.add(gem);
+
+    const ring = new THREE.Mesh(
+      new THREE.TorusGeometry(0.9, 0.08, 8, 24),
+      new THREE.MeshBasicMaterial({
+        color,
+        transparent: true,
+        opacity: 0.7
+      })
+    );
+    pickup.add(ring);
+
+    pickup.position.y = 1.2;
+    return pickup;
+  }
+
+  /**
+   * Create a roadside prop standing on its base at the origin; props that
+   * run along the road (guard rails) are laid out along Z. Beyond
+   * PROP_LOD_DISTANCE a simpler version with fewer parts and facets stands in,
+   * reusing the detailed version's materials; buildings have none
+   */
+  static createRoadsideProp(type: RoadsidePropType): THREE.LOD {
+    const detail = new THREE.Group();
+    const simple = new THREE.Group();
+    const addPart = (
+      geometry: THREE.BufferGeometry,
+      material: THREE.Material,
+      x: number,
+      y: number,
+      z: number,
+      level: THREE.Group = detail
+    ) => {
+      const part = new THREE.Mesh(geometry, material);
+      part.position.set(x, y, z);
+      level.add(part);
+      return part;
+    };
+
+    switch (type) {
+      case 'marker_post': {
+        const white = new THREE.MeshLambertMaterial({ color: 0xeeeeee });
+        addPart(new THREE.BoxGeometry(0.15, 1, 0.15), white, 0, 0.5, 0);
+        addPart(new THREE.BoxGeometry(0.17, 0.2, 0.17), new THREE.MeshBasicMaterial({ color: 0xff6d00 }), 0, 0.85, 0);
+        addPart(new THREE.BoxGeometry(0.15, 1, 0.15), white, 0, 0.5, 0, simple);
+        break;
+      }
+      case 'guard_rail': {
+        const steel = new THREE.MeshLambertMaterial({ color: 0xb0b7bd });
+        const rail = new THREE.BoxGeometry(0.12, 0.3, 8);
+        addPart(rail, steel, 0, 0.7, 0);
+        addPart(new THREE.BoxGeometry(0.15, 0.7, 0.15), steel, 0.1, 0.35, 0);
+        addPart(rail, steel, 0, 0.7, 0, simple);
+        break;
+      }
+      case 'street_lamp': {
+        // The arm reaches toward -X; turn the lamp so it hangs over the road
+        const metal = new THREE.MeshLambertMaterial({ color: 0x555a60 });
+        const light = new THREE.MeshBasicMaterial({ color: 0xfff3c4 });
+        const arm = new THREE.BoxGeometry(2, 0.1, 0.1);
+        const head = new THREE.BoxGeometry(0.6, 0.15, 0.35);
+        addPart(new THREE.CylinderGeometry(0.1, 0.15, 6, 8), metal, 0, 3, 0);
+        addPart(arm, metal, -1, 6, 0);
+        addPart(head, light, -2, 5.95, 0).name = 'lamp-head';
+        addPart(new THREE.BoxGeometry(0.2, 6, 0.2), metal, 0, 3, 0, simple);
+        addPart(arm, metal, -1, 6, 0, simple);
+        addPart(head, light, -2, 5.95, 0, simple).name = 'lamp-head';
+        break;
+      }
+      case 'tree': {
+        const bark = new THREE.MeshLambertMaterial({ color: 0x6d4c41 });
+        const leaves = new THREE.MeshLambertMaterial({ color: 0x388e3c });
+        addPart(new THREE.CylinderGeometry(0.25, 0.35, 2, 6), bark, 0, 1, 0);
+        addPart(new THREE.IcosahedronGeometry(1.8, 0), leaves, 0, 3.2, 0);
+        addPart(new THREE.CylinderGeometry(0.25, 0.35, 2, 3), bark, 0, 1, 0, simple);
+        addPart(new THREE.OctahedronGeometry(1.9, 0), leaves, 0, 3.2, 0, simple);
+        break;
+      }
+      case 'pine': {
+        const bark = new THREE.MeshLambertMaterial({ color: 0x5d4037 });
+        const needles = new THREE.MeshLambertMaterial({ color: 0x1b5e20 });
+        const snow = new THREE.MeshLambertMaterial({ color: 0xf5f7fa });
+        addPart(new THREE.CylinderGeometry(0.2, 0.3, 1.5, 6), bark, 0, 0.75, 0);
+        addPart(new THREE.ConeGeometry(1.6, 2.6, 7), needles, 0, 2.5, 0);
+        addPart(new THREE.ConeGeometry(1.1, 2, 7), needles, 0, 3.9, 0);
+        addPart(new THREE.ConeGeometry(0.55, 0.9, 7), snow, 0, 4.75, 0);
+        addPart(new THREE.CylinderGeometry(0.2, 0.3, 1.5, 3), bark, 0, 0.75, 0, simple);
+        addPart(new THREE.ConeGeometry(1.6, 3.2, 5), needles, 0, 2.8, 0, simple);
+        addPart(new THREE.ConeGeometry(0.7, 1.2, 5), snow, 0, 4.6, 0, simple);
+        break;
+      }
+      case 'cactus': {
+        const skin = new THREE.MeshLambertMaterial({ color: 0x4e8b3a });
+        addPart(new THREE.CylinderGeometry(0.35, 0.4, 3.2, 8), skin, 0, 1.6, 0);
+        addPart(new THREE.CylinderGeometry(0.22, 0.22, 1.2, 8), skin, -0.65, 2, 0);
+        addPart(new THREE.CylinderGeometry(0.2, 0.2, 0.9, 8), skin, 0.6, 1.6, 0);
+        addPart(new THREE.BoxGeometry(0.6, 0.25, 0.25), skin, -0.35, 1.45, 0);
+        addPart(new THREE.BoxGeometry(0.5, 0.22, 0.22), skin, 0.3, 1.2, 0);
+        addPart(new THREE.BoxGeometry(0.7, 3.2, 0.7), skin, 0, 1.6, 0, simple);
+        addPart(new THREE.BoxGeometry(0.4, 1.2, 0.4), skin, -0.65, 2, 0, simple);
+        addPart(new THREE.BoxGeometry(0.36, 0.9, 0.36), skin, 0.6, 1.6, 0, simple);
+        break;
+      }
+      case 'rock': {
+        const stone = new THREE.MeshLambertMaterial({ color: 0x8d7b6a });
+        addPart(new THREE.DodecahedronGeometry(1.2, 0), stone, 0, 0.5, 0).scale.y = 0.6;
+        addPart(new THREE.OctahedronGeometry(1.2, 0), stone, 0, 0.5, 0, simple).scale.y = 0.6;
+        break;
+      }
+      case 'building': {
+        addPart(new THREE.BoxGeometry(8, 20, 8), new THREE.MeshLambertMaterial({ color: 0x1a1a2e }), 0, 10, 0);
+
+        // Glowing bands in the neon accent colors
+        addPart(new THREE.BoxGeometry(8.1, 0.3, 8.1), new THREE.MeshBasicMaterial({ color: 0x00ffff }), 0, 6, 0);
+        addPart(new THREE.BoxGeometry(8.1, 0.3, 8.1), new THREE.MeshBasicMaterial({ color: 0xff00ff }), 0, 14, 0);
+        break;
+      }
+    }
+
+    const prop = new ScaledLOD();
+    prop.addLevel(detail, 0);
+    if (simple.children.length > 0) {
+      prop.addLevel(simple, PROP_LOD_DISTANCE, LOD_HYSTERESIS);
+    }
+    prop.userData.type = type;
+    return prop;
+  }
+
   /**
    * Create road geometry
    */
@@ -180,30 +605,33 @@ export class ThreeUtils {
   }
 
   /**
-   * Create particle system for collision effects
+   * Create a particle system: collision sparks by default, or any single-colored cloud
    */
-  static createParticleSystem(): THREE.Points {
+  static createParticleSystem(options: ParticleSystemOptions = {}): THREE.Points {
     const particlesGeometry = new THREE.BufferGeometry();
-    const particleCount = 100;
+    const particleCount = options.count ?? 100;
+    const spread = options.spread ?? new THREE.Vector3(10, 5, 10);
+    const color = options.color !== undefined ? new THREE.Color(options.color) : null;
     
     const positions = new Float32Array(particleCount * 3);
     const colors = new Float32Array(particleCount * 3);
     
     for (let i = 0; i < particleCount * 3; i += 3) {
-      positions[i] = (Math.random() - 0.5) * 10;
-      positions[i + 1] = Math.random() * 5;
-      positions[i + 2] = (Math.random() - 0.5) * 10;
+      positions[i] = (Math.random() - 0.5) * spread.x;
+      positions[i + 1] = Math.random() * spread.y;
+      positions[i + 2] = (Math.random() - 0.5) * spread.z;
       
-      colors[i] = 1;
-      colors[i + 1] = Math.random();
-      colors[i + 2] = 0;
+      // Fiery sparks unless a color is given
+      colors[i] = color ? color.r : 1;
+      colors[i + 1] = color ? color.g : Math.random();
+      colors[i + 2] = color ? color.b : 0;
     }
     
     particlesGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
     particlesGeometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
     
     const particlesMaterial = new THREE.PointsMaterial({
-      size: 0.1,
+      size: options.size ?? 0.1,
       vertexColors: true,
       transparent: true,
       opacity: 0.8
@@ -262,6 +690,30 @@ export class ThreeUtils {
     scene.add(skybox);
   }
 
+  /**
+   * Color a sky sphere with a vertical gradient (needs vertexColors on its material)
+   */
+  static paintSkyGradient(sky: THREE.Mesh, top: THREE.Color, horizon: THREE.Color): void {
+    const geometry = sky.geometry as THREE.BufferGeometry;
+    const positions = geometry.attributes.position;
+    let colors = geometry.attributes.color as THREE.BufferAttribute | undefined;
+    if (!colors) {
+      colors = new THREE.BufferAttribute(new Float32Array(positions.count * 3), 3);
+      geometry.setAttribute('color', colors);
+    }
+
+    geometry.computeBoundingSphere();
+    const radius = geometry.boundingSphere!.radius;
+    const color = new THREE.Color();
+    for (let i = 0; i < positions.count; i++) {
+      // Horizon color below the horizon, easing into the top color overhead
+      const height = Math.max(positions.getY(i) / radius, 0);
+      color.lerpColors(horizon, top, Math.pow(height, 0.6));
+      colors.setXYZ(i, color.r, color.g, color.b);
+    }
+    colors.needsUpdate = true;
+  }
+
   /**
    * Enable shadows for object
    */